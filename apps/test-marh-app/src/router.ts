@@ -1,12 +1,11 @@
-import { Router } from '@marh/core';
+import { Router, defineRoutes, lazy } from '@marh/core';
 import { Home } from './pages/Home';
-import { Users } from './pages/Users';
 
-export const routes = {
+export const routes = defineRoutes({
   '/': Home,
   '/home': Home,
-  '/users': Users
-};
+  '/users': lazy(() => import('./pages/Users'))
+});
 
 export function initializeRouter(): void {
   Router.route(document.getElementById('app')!, '/', routes);
@@ -1,8 +1,39 @@
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, ipcMain, WebContents } from 'electron';
+import { readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
 
 const isDev = process.env.NODE_ENV === 'development';
 
+// Renderers with an active `Router.block` from @marh/core
+const closeBlocked = new Set<WebContents>();
+
+/**
+ * Backs DesktopStorageService from @marh/core with a JSON file in userData
+ */
+function registerStorageHandlers() {
+  const storagePath = join(app.getPath('userData'), 'storage.json');
+  let data: Record<string, string> = {};
+  try {
+    data = JSON.parse(readFileSync(storagePath, 'utf-8'));
+  } catch {
+    // First run or unreadable file: start empty
+  }
+  const save = () => writeFileSync(storagePath, JSON.stringify(data));
+
+  ipcMain.handle('storage:get', (_event, key: string) => data[key] ?? null);
+  ipcMain.handle('storage:set', (_event, key: string, value: string) => {
+    data[key] = value;
+    save();
+  });
+  ipcMain.handle('storage:remove', (_event, key: string) => {
+    delete data[key];
+    save();
+  });
+  ipcMain.handle('storage:keys', (_event, prefix: string) =>
+    Object.keys(data).filter(key => key.startsWith(prefix))
+  );
+}
+
 function createWindow() {
   const mainWindow = new BrowserWindow({
     width: 1200,
@@ -14,6 +45,17 @@ function createWindow() {
     }
   });
 
+  const { webContents } = mainWindow;
+  mainWindow.on('close', event => {
+    if (closeBlocked.has(webContents)) {
+      event.preventDefault();
+      webContents.send('window:confirm-close');
+    }
+  });
+  // A reload starts without blockers
+  webContents.on('did-navigate', () => closeBlocked.delete(webContents));
+  webContents.on('destroyed', () => closeBlocked.delete(webContents));
+
   if (isDev) {
     mainWindow.loadURL('http://localhost:5173');
     mainWindow.webContents.openDevTools();
@@ -22,7 +64,41 @@ function createWindow() {
   }
 }
 
+/**
+ * Relays store changes from `sync()` in @marh/core to the other windows
+ */
+function registerStoreSyncRelay() {
+  ipcMain.handle('store-sync:publish', (event, message) => {
+    BrowserWindow.getAllWindows().forEach(window => {
+      if (window.webContents !== event.sender) {
+        window.webContents.send('store-sync:message', message);
+      }
+    });
+  });
+}
+
+/**
+ * Lets `Router.block` confirm closing a window: while the renderer blocks,
+ * closing is held and the renderer asks the user, then closes it for real
+ */
+function registerCloseConfirmation() {
+  ipcMain.handle('window:block-close', (event, blocked: boolean) => {
+    if (blocked) {
+      closeBlocked.add(event.sender);
+    } else {
+      closeBlocked.delete(event.sender);
+    }
+  });
+  ipcMain.handle('window:close', event => {
+    closeBlocked.delete(event.sender);
+    BrowserWindow.fromWebContents(event.sender)?.close();
+  });
+}
+
 app.whenReady().then(() => {
+  registerStorageHandlers();
+  registerStoreSyncRelay();
+  registerCloseConfirmation();
   createWindow();
 
   app.on('activate', () => {
@@ -1,5 +1,21 @@
-import { contextBridge } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+
+// Wrapped listeners by callback, so removeListener can find them
+const listeners = new Map<Function, (event: IpcRendererEvent, ...args: any[]) => void>();
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  platform: process.platform
+  platform: process.platform,
+  invoke: (channel: string, ...args: any[]) => ipcRenderer.invoke(channel, ...args),
+  on: (channel: string, callback: (...args: any[]) => void) => {
+    const listener = (_event: IpcRendererEvent, ...args: any[]) => callback(...args);
+    listeners.set(callback, listener);
+    ipcRenderer.on(channel, listener);
+  },
+  removeListener: (channel: string, callback: (...args: any[]) => void) => {
+    const listener = listeners.get(callback);
+    if (listener) {
+      ipcRenderer.removeListener(channel, listener);
+      listeners.delete(callback);
+    }
+  }
 });
\ No newline at end of file
@@ -1,12 +1,12 @@
-import { m, MarhComponent } from '@marh/core';
-import { appStore } from './stores/app.store';
-import { counterStore } from './stores/counter.store';
+import { m, use, MarhComponent } from '@marh/core';
+import { AppStore } from './stores/app.store';
+import { CounterStore } from './stores/counter.store';
 
 /**
  * App Component - Root component for the application
  * 
  * This component demonstrates:
- * - Store initialization (though stores are singletons, they're imported here for clarity)
+ * - Resolving stores from the container, which creates them on first use
  * - Global state management setup
  * - Component lifecycle management
  * 
@@ -17,15 +17,17 @@ import { counterStore } from './stores/counter.store';
  */
 export const App: MarhComponent = {
   oninit() {
-    // Stores are automatically initialized when imported
+    // Stores are created when they're first resolved from the container
+    const appStore = use(AppStore);
+    const counterStore = use(CounterStore);
+
     // This is just for demonstration - you could initialize settings here
     console.log('App initialized');
     console.log('Initial counter value:', counterStore.count);
     console.log('Initial theme:', appStore.theme);
     
-    // Example: Initialize app settings from localStorage or API
-    // const savedTheme = localStorage.getItem('theme');
-    // if (savedTheme) appStore.setTheme(savedTheme);
+    // Theme and sidebar settings are restored from storage automatically
+    appStore.hydrated.then(() => console.log('Restored theme:', appStore.theme));
   },
 
   view() {
@@ -1,6 +1,5 @@
-import { m, useAsync, MarhComponent, platform, getStorage } from '@marh/core';
-import { counterStore } from '../stores/counter.store';
-import { appStore } from '../stores/app.store';
+import { m, use, withHooks, useAsync, MarhComponent, platform, getStorage } from '@marh/core';
+import { AppStore } from '../stores/app.store';
 import { StoreCounter } from '../../shared/src/components/StoreCounter';
 import { NotificationList } from '../../shared/src/components/NotificationList';
 import { CacheDemo } from '../../shared/src/components/CacheDemo';
@@ -26,6 +25,7 @@ const fetchUsers = async (): Promise<User[]> => {
 // Desktop-specific settings component
 const DesktopSettings: MarhComponent = {
   view() {
+    const appStore = use(AppStore);
     return (
       <div class="bg-white rounded-lg shadow-md p-6">
         <h3 class="text-xl font-semibold text-gray-800 mb-4">
@@ -175,120 +175,119 @@ const ContactForm: MarhComponent = {
   }
 };
 
-export const Home: MarhComponent = {
-  view() {
-    const { data: users, loading, error } = useAsync(fetchUsers);
-
-    return (
-      <div class="min-h-screen bg-gray-100 py-12 px-4">
-        <div class="max-w-4xl mx-auto space-y-8">
-          <h1 class="text-4xl font-bold text-gray-900 text-center">
-            Welcome to MARH Framework
-          </h1>
-          
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              Framework Features
-            </h2>
-            <ul class="space-y-2 text-gray-600">
-              <li>✅ Mithril.js with JSX support</li>
-              <li>✅ TypeScript integration</li>
-              <li>✅ Async hooks (useAsync)</li>
-              <li>✅ Type-safe routing</li>
-              <li>✅ IPC communication for Electron</li>
-              <li>✅ TailwindCSS styling</li>
-              <li>✅ Platform detection ({platform.isElectron ? 'Desktop' : 'Web'})</li>
-            </ul>
-          </div>
+export const Home = withHooks(() => {
+  const { data: users, loading, error } = useAsync(fetchUsers);
+  const appStore = use(AppStore);
 
-          {/* Store Examples - Global State Management */}
-          <div class="grid gap-6 md:grid-cols-2">
-            <StoreCounter />
-            <DesktopSettings />
-          </div>
+  return (
+    <div class="min-h-screen bg-gray-100 py-12 px-4">
+      <div class="max-w-4xl mx-auto space-y-8">
+        <h1 class="text-4xl font-bold text-gray-900 text-center">
+          Welcome to MARH Framework
+        </h1>
+        
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            Framework Features
+          </h2>
+          <ul class="space-y-2 text-gray-600">
+            <li>✅ Mithril.js with JSX support</li>
+            <li>✅ TypeScript integration</li>
+            <li>✅ Async hooks (useAsync)</li>
+            <li>✅ Type-safe routing</li>
+            <li>✅ IPC communication for Electron</li>
+            <li>✅ TailwindCSS styling</li>
+            <li>✅ Platform detection ({platform.isElectron ? 'Desktop' : 'Web'})</li>
+          </ul>
+        </div>
 
-          {/* Show notifications using shared component */}
-          <NotificationList appStore={appStore} />
+        {/* Store Examples - Global State Management */}
+        <div class="grid gap-6 md:grid-cols-2">
+          <StoreCounter />
+          <DesktopSettings />
+        </div>
 
-          {/* Cache Service Demo */}
-          <CacheDemo />
+        {/* Show notifications using shared component */}
+        <NotificationList appStore={appStore} />
 
-          {/* CRUD Service Demo */}
-          <CrudDemo />
+        {/* Cache Service Demo */}
+        <CacheDemo />
 
-          {/* Database System Demo */}
-          <DatabaseDemo />
+        {/* CRUD Service Demo */}
+        <CrudDemo />
 
-          {/* Form Example (Local State) */}
-          <ContactForm />
+        {/* Database System Demo */}
+        <DatabaseDemo />
 
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              Users List (useAsync Hook Demo)
-            </h2>
-            
-            {loading && (
-              <div class="flex items-center justify-center py-8">
-                <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <span class="ml-2 text-gray-600">Loading users...</span>
-              </div>
-            )}
-            
-            {error && (
-              <div class="bg-red-50 border border-red-200 rounded-md p-4">
-                <p class="text-red-600">Error: {error.message}</p>
-              </div>
-            )}
-            
-            {users && !loading && (
-              <>
-                <p class="text-gray-600 mb-4">
-                  Demonstrating JSX list rendering with proper keys:
-                </p>
-                <div class="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                  {users.map(user => (
-                    <div key={user.id} class="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
-                      <h3 class="font-semibold text-gray-900">{user.name}</h3>
-                      <p class="text-gray-600 text-sm">{user.email}</p>
-                      <div class="mt-2">
-                        <span class="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded">
-                          ID: {user.id}
-                        </span>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </>
-            )}
-          </div>
+        {/* Form Example (Local State) */}
+        <ContactForm />
 
-          {/* Platform-specific features */}
-          {platform.isElectron && (
-            <div class="bg-blue-50 border border-blue-200 rounded-lg p-6">
-              <h3 class="text-lg font-semibold text-blue-900 mb-2">
-                Desktop Features
-              </h3>
-              <p class="text-blue-700">
-                You're running in Electron! This app has access to desktop-specific features
-                like file system operations and native menus.
-              </p>
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            Users List (useAsync Hook Demo)
+          </h2>
+          
+          {loading && (
+            <div class="flex items-center justify-center py-8">
+              <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span class="ml-2 text-gray-600">Loading users...</span>
+            </div>
+          )}
+          
+          {error && (
+            <div class="bg-red-50 border border-red-200 rounded-md p-4">
+              <p class="text-red-600">Error: {error.message}</p>
             </div>
           )}
+          
+          {users && !loading && (
+            <>
+              <p class="text-gray-600 mb-4">
+                Demonstrating JSX list rendering with proper keys:
+              </p>
+              <div class="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {users.map(user => (
+                  <div key={user.id} class="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                    <h3 class="font-semibold text-gray-900">{user.name}</h3>
+                    <p class="text-gray-600 text-sm">{user.email}</p>
+                    <div class="mt-2">
+                      <span class="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded">
+                        ID: {user.id}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
 
-          <div class="bg-gray-50 rounded-lg p-6">
-            <h3 class="text-lg font-semibold text-gray-800 mb-2">
-              JSX Best Practices Demonstrated
+        {/* Platform-specific features */}
+        {platform.isElectron && (
+          <div class="bg-blue-50 border border-blue-200 rounded-lg p-6">
+            <h3 class="text-lg font-semibold text-blue-900 mb-2">
+              Desktop Features
             </h3>
-            <ul class="text-sm text-gray-600 space-y-1">
-              <li>• Use <code class="bg-gray-200 px-1 rounded">class</code> instead of <code class="bg-gray-200 px-1 rounded">className</code></li>
-              <li>• Use lowercase event handlers: <code class="bg-gray-200 px-1 rounded">onclick</code>, <code class="bg-gray-200 px-1 rounded">oninput</code></li>
-              <li>• Always provide <code class="bg-gray-200 px-1 rounded">key</code> props for list items</li>
-              <li>• Use fragments <code class="bg-gray-200 px-1 rounded">&lt;&gt;...&lt;/&gt;</code> for multiple elements</li>
-              <li>• Bind event handlers to maintain component context</li>
-            </ul>
+            <p class="text-blue-700">
+              You're running in Electron! This app has access to desktop-specific features
+              like file system operations and native menus.
+            </p>
           </div>
+        )}
+
+        <div class="bg-gray-50 rounded-lg p-6">
+          <h3 class="text-lg font-semibold text-gray-800 mb-2">
+            JSX Best Practices Demonstrated
+          </h3>
+          <ul class="text-sm text-gray-600 space-y-1">
+            <li>• Use <code class="bg-gray-200 px-1 rounded">class</code> instead of <code class="bg-gray-200 px-1 rounded">className</code></li>
+            <li>• Use lowercase event handlers: <code class="bg-gray-200 px-1 rounded">onclick</code>, <code class="bg-gray-200 px-1 rounded">oninput</code></li>
+            <li>• Always provide <code class="bg-gray-200 px-1 rounded">key</code> props for list items</li>
+            <li>• Use fragments <code class="bg-gray-200 px-1 rounded">&lt;&gt;...&lt;/&gt;</code> for multiple elements</li>
+            <li>• Bind event handlers to maintain component context</li>
+          </ul>
         </div>
       </div>
-    );
-  }
-};
\ No newline at end of file
+    </div>
+  );
+});
\ No newline at end of file
@@ -1,10 +1,10 @@
-import { Router } from '@marh/core';
+import { Router, defineRoutes } from '@marh/core';
 import { Home } from './pages/Home';
 
-export const routes = {
+export const routes = defineRoutes({
   '/': Home,
   '/home': Home
-};
+});
 
 export function initializeRouter(): void {
   Router.route(document.getElementById('app')!, '/', routes);
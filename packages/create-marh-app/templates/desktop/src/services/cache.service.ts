@@ -1,5 +1,5 @@
 import { CacheService as BaseCacheService, cached } from '../../shared/src/services/cache.service';
-import { IPC } from '@marh/core';
+import { IPC, register } from '@marh/core';
 
 /**
  * Desktop Cache Service
@@ -129,8 +129,9 @@ export class DesktopCacheService extends BaseCacheService {
   }
 }
 
-// Export singleton instance
-export const cacheService = new DesktopCacheService();
+// Resolve with `use(DesktopCacheService)`; the cleanup task stops when the
+// container drops it
+register(DesktopCacheService, () => new DesktopCacheService(), { dispose: cache => cache.destroy() });
 
 // Re-export decorator
 export { cached };
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { register } from '@marh/core';
 import { DesktopCrudService } from './desktop-crud.service';
 import { BaseEntity } from '../../shared/src/services/crud.interface';
 
@@ -27,7 +28,7 @@ export interface User extends BaseEntity {
  * - Full-text search
  * - Import/export functionality
  */
-class UserService extends DesktopCrudService<User> {
+export class UserService extends DesktopCrudService<User> {
   constructor() {
     super({
       entityName: 'user',
@@ -217,11 +218,14 @@ class UserService extends DesktopCrudService<User> {
   }
 }
 
-// Export singleton instance
-export const userService = new UserService();
+// Resolve with `use(UserService)`; syncing stops and data is saved when the
+// container drops it
+register(UserService, () => new UserService(), { dispose: service => service.destroy() });
 
 // Example usage:
 /*
+const userService = use(UserService);
+
 // Create a new user
 const user = await userService.createUser({
   name: 'John Doe',
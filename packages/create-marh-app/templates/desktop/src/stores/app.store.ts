@@ -1,3 +1,4 @@
+import { createToken, register } from '@marh/core';
 import { BaseAppStore, BaseAppState } from '../../shared/src/stores/base-app.store';
 
 /**
@@ -39,5 +40,10 @@ class DesktopAppStore extends BaseAppStore<DesktopAppState> {
   }
 }
 
-// Export a singleton instance
-export const appStore = new DesktopAppStore();
\ No newline at end of file
+/**
+ * Container token for the app store. Resolve it with `use(AppStore)` in
+ * components, and call `resetContainer()` between tests for a fresh store;
+ * the old one is disposed.
+ */
+export const AppStore = createToken<DesktopAppStore>('AppStore');
+register(AppStore, () => new DesktopAppStore(), { dispose: store => store.dispose() });
\ No newline at end of file
@@ -1,2 +1,2 @@
 // Re-export the shared counter store
-export { counterStore } from '../../shared/src/stores/counter.store';
\ No newline at end of file
+export { CounterStore } from '../../shared/src/stores/counter.store';
\ No newline at end of file
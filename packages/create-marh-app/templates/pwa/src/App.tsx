@@ -1,6 +1,6 @@
-import { m, MarhComponent } from '@marh/core';
-import { appStore } from './stores/app.store';
-import { counterStore } from './stores/counter.store';
+import { m, use, MarhComponent } from '@marh/core';
+import { AppStore } from './stores/app.store';
+import { CounterStore } from './stores/counter.store';
 
 /**
  * App Component - Root component for the PWA application
@@ -18,15 +18,17 @@ import { counterStore } from './stores/counter.store';
  */
 export const App: MarhComponent = {
   oninit() {
-    // Stores are automatically initialized when imported
+    // Stores are created when they're first resolved from the container
+    const appStore = use(AppStore);
+    const counterStore = use(CounterStore);
+
     console.log('PWA App initialized');
     console.log('Initial counter value:', counterStore.count);
     console.log('Initial theme:', appStore.theme);
     console.log('Online status:', appStore.isOnline);
     
-    // Example: Initialize app settings from localStorage
-    // const savedTheme = localStorage.getItem('theme');
-    // if (savedTheme) appStore.setTheme(savedTheme);
+    // Theme and sidebar settings are restored from storage automatically
+    appStore.hydrated.then(() => console.log('Restored theme:', appStore.theme));
     
     // PWA-specific initialization
     // The appStore automatically handles:
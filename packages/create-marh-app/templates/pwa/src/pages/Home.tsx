@@ -1,6 +1,5 @@
-import { m, useAsync, platform, getStorage, MarhComponent } from '@marh/core';
-import { counterStore } from '../stores/counter.store';
-import { appStore } from '../stores/app.store';
+import { m, use, withHooks, useEffect, useAsync, platform, getStorage, MarhComponent } from '@marh/core';
+import { AppStore } from '../stores/app.store';
 import { StoreCounter } from '../../shared/src/components/StoreCounter';
 import { NotificationList } from '../../shared/src/components/NotificationList';
 import { CacheDemo } from '../../shared/src/components/CacheDemo';
@@ -62,6 +61,7 @@ const clearData = async () => {
 // PWA-specific settings component
 const PWASettings: MarhComponent = {
   view() {
+    const appStore = use(AppStore);
     return (
       <div class="bg-white rounded-lg shadow-md p-6">
         <h3 class="text-xl font-semibold text-gray-800 mb-4">
@@ -122,171 +122,170 @@ const PWASettings: MarhComponent = {
   }
 };
 
-export const Home: MarhComponent = {
-  oninit() {
+export const Home = withHooks(() => {
+  useEffect(() => {
     // Load stored data
     loadStoredData();
-  },
+  }, []);
 
-  view() {
-    const { data: users, loading, error } = useAsync(fetchUsers);
+  const { data: users, loading, error } = useAsync(fetchUsers);
+  const appStore = use(AppStore);
 
-    return (
-      <div class="min-h-screen bg-gray-100 py-12 px-4">
-        <div class="max-w-4xl mx-auto space-y-8">
-          <h1 class="text-4xl font-bold text-gray-900 text-center">
-            Welcome to MARH PWA Framework
-          </h1>
-          
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              Platform Information
-            </h2>
-            <div class="grid gap-4 md:grid-cols-2">
-              <div>
-                <p><strong>Platform:</strong> {platform.platform}</p>
-                <p><strong>Is Electron:</strong> {platform.isElectron ? 'Yes' : 'No'}</p>
-                <p><strong>Is Mobile:</strong> {platform.isMobile ? 'Yes' : 'No'}</p>
-                <p><strong>Is Desktop:</strong> {platform.isDesktop ? 'Yes' : 'No'}</p>
-              </div>
-              <div>
-                <p><strong>Is Web:</strong> {platform.isWeb ? 'Yes' : 'No'}</p>
-                <p><strong>Service Worker Support:</strong> {platform.supportsServiceWorker ? 'Yes' : 'No'}</p>
-                <p><strong>User Agent:</strong> {platform.userAgent.substring(0, 50)}...</p>
-              </div>
+  return (
+    <div class="min-h-screen bg-gray-100 py-12 px-4">
+      <div class="max-w-4xl mx-auto space-y-8">
+        <h1 class="text-4xl font-bold text-gray-900 text-center">
+          Welcome to MARH PWA Framework
+        </h1>
+        
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            Platform Information
+          </h2>
+          <div class="grid gap-4 md:grid-cols-2">
+            <div>
+              <p><strong>Platform:</strong> {platform.platform}</p>
+              <p><strong>Is Electron:</strong> {platform.isElectron ? 'Yes' : 'No'}</p>
+              <p><strong>Is Mobile:</strong> {platform.isMobile ? 'Yes' : 'No'}</p>
+              <p><strong>Is Desktop:</strong> {platform.isDesktop ? 'Yes' : 'No'}</p>
+            </div>
+            <div>
+              <p><strong>Is Web:</strong> {platform.isWeb ? 'Yes' : 'No'}</p>
+              <p><strong>Service Worker Support:</strong> {platform.supportsServiceWorker ? 'Yes' : 'No'}</p>
+              <p><strong>User Agent:</strong> {platform.userAgent.substring(0, 50)}...</p>
             </div>
           </div>
+        </div>
 
-          {/* Store Examples - Global State Management */}
-          <div class="grid gap-6 md:grid-cols-2">
-            <StoreCounter />
-            <PWASettings />
-          </div>
+        {/* Store Examples - Global State Management */}
+        <div class="grid gap-6 md:grid-cols-2">
+          <StoreCounter />
+          <PWASettings />
+        </div>
 
-          {/* Show notifications using shared component */}
-          <NotificationList appStore={appStore} />
+        {/* Show notifications using shared component */}
+        <NotificationList appStore={appStore} />
 
-          {/* Cache Service Demo */}
-          <CacheDemo />
+        {/* Cache Service Demo */}
+        <CacheDemo />
 
-          {/* CRUD Service Demo */}
-          <CrudDemo />
+        {/* CRUD Service Demo */}
+        <CrudDemo />
 
-          {/* Database System Demo */}
-          <DatabaseDemo />
+        {/* Database System Demo */}
+        <DatabaseDemo />
 
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              Cross-Platform Storage Demo (Local State)
-            </h2>
-            <div class="space-y-4">
-              <div class="flex gap-2">
-                <button
-                  class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
-                  onclick={() => saveData()}
-                >
-                  Save Data
-                </button>
-                <button
-                  class="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
-                  onclick={() => clearData()}
-                >
-                  Clear Data
-                </button>
-              </div>
-              
-              {storedData && (
-                <div class="bg-gray-50 p-4 rounded border">
-                  <h4 class="font-semibold">Stored Data:</h4>
-                  <pre class="text-sm text-gray-600 mt-2">{JSON.stringify(storedData, null, 2)}</pre>
-                </div>
-              )}
-              
-              {!storedData && (
-                <p class="text-gray-600">No data stored yet. Click "Save Data" to test storage.</p>
-              )}
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            Cross-Platform Storage Demo (Local State)
+          </h2>
+          <div class="space-y-4">
+            <div class="flex gap-2">
+              <button
+                class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+                onclick={() => saveData()}
+              >
+                Save Data
+              </button>
+              <button
+                class="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
+                onclick={() => clearData()}
+              >
+                Clear Data
+              </button>
             </div>
-          </div>
-          
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              PWA Features
-            </h2>
-            <ul class="space-y-2 text-gray-600">
-              <li>✅ Progressive Web App with service worker</li>
-              <li>✅ Offline support and caching</li>
-              <li>✅ Installable on mobile and desktop</li>
-              <li>✅ Cross-platform storage abstraction</li>
-              <li>✅ Platform detection and adaptation</li>
-              <li>✅ Responsive design with TailwindCSS</li>
-              <li>✅ JSX with proper Mithril syntax</li>
-            </ul>
-          </div>
-
-          <div class="bg-white rounded-lg shadow-md p-6">
-            <h2 class="text-2xl font-semibold text-gray-800 mb-4">
-              Users List (useAsync Hook & JSX Lists)
-            </h2>
             
-            {loading && (
-              <div class="flex items-center justify-center py-8">
-                <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <span class="ml-2 text-gray-600">Loading users...</span>
+            {storedData && (
+              <div class="bg-gray-50 p-4 rounded border">
+                <h4 class="font-semibold">Stored Data:</h4>
+                <pre class="text-sm text-gray-600 mt-2">{JSON.stringify(storedData, null, 2)}</pre>
               </div>
             )}
             
-            {error && (
-              <div class="bg-red-50 border border-red-200 rounded-md p-4">
-                <p class="text-red-600">Error: {error.message}</p>
-              </div>
-            )}
-            
-            {users && !loading && (
-              <>
-                <p class="text-gray-600 mb-4">
-                  Demonstrating JSX list rendering with proper keys and Mithril syntax:
-                </p>
-                <div class="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                  {users.map(user => (
-                    <div key={user.id} class="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
-                      <h3 class="font-semibold text-gray-900">{user.name}</h3>
-                      <p class="text-gray-600 text-sm">{user.email}</p>
-                      <div class="mt-2">
-                        <span class="inline-block bg-green-100 text-green-800 text-xs px-2 py-1 rounded">
-                          PWA User #{user.id}
-                        </span>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </>
+            {!storedData && (
+              <p class="text-gray-600">No data stored yet. Click "Save Data" to test storage.</p>
             )}
           </div>
+        </div>
+        
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            PWA Features
+          </h2>
+          <ul class="space-y-2 text-gray-600">
+            <li>✅ Progressive Web App with service worker</li>
+            <li>✅ Offline support and caching</li>
+            <li>✅ Installable on mobile and desktop</li>
+            <li>✅ Cross-platform storage abstraction</li>
+            <li>✅ Platform detection and adaptation</li>
+            <li>✅ Responsive design with TailwindCSS</li>
+            <li>✅ JSX with proper Mithril syntax</li>
+          </ul>
+        </div>
 
-          <div class="bg-green-50 border border-green-200 rounded-lg p-6">
-            <h3 class="text-lg font-semibold text-green-900 mb-2">
-              PWA Installation
-            </h3>
-            <p class="text-green-700">
-              This app can be installed on your device! Look for the install prompt 
-              or use your browser's "Add to Home Screen" or "Install App" option.
-            </p>
-          </div>
+        <div class="bg-white rounded-lg shadow-md p-6">
+          <h2 class="text-2xl font-semibold text-gray-800 mb-4">
+            Users List (useAsync Hook & JSX Lists)
+          </h2>
+          
+          {loading && (
+            <div class="flex items-center justify-center py-8">
+              <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span class="ml-2 text-gray-600">Loading users...</span>
+            </div>
+          )}
+          
+          {error && (
+            <div class="bg-red-50 border border-red-200 rounded-md p-4">
+              <p class="text-red-600">Error: {error.message}</p>
+            </div>
+          )}
+          
+          {users && !loading && (
+            <>
+              <p class="text-gray-600 mb-4">
+                Demonstrating JSX list rendering with proper keys and Mithril syntax:
+              </p>
+              <div class="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {users.map(user => (
+                  <div key={user.id} class="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                    <h3 class="font-semibold text-gray-900">{user.name}</h3>
+                    <p class="text-gray-600 text-sm">{user.email}</p>
+                    <div class="mt-2">
+                      <span class="inline-block bg-green-100 text-green-800 text-xs px-2 py-1 rounded">
+                        PWA User #{user.id}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
 
-          <div class="bg-gray-50 rounded-lg p-6">
-            <h3 class="text-lg font-semibold text-gray-800 mb-2">
-              JSX Best Practices in PWA
-            </h3>
-            <ul class="text-sm text-gray-600 space-y-1">
-              <li>• Use <code class="bg-gray-200 px-1 rounded">class</code> instead of <code class="bg-gray-200 px-1 rounded">className</code></li>
-              <li>• Use lowercase event handlers: <code class="bg-gray-200 px-1 rounded">onclick</code></li>
-              <li>• Always provide <code class="bg-gray-200 px-1 rounded">key</code> props for list items</li>
-              <li>• Use fragments <code class="bg-gray-200 px-1 rounded">&lt;&gt;...&lt;/&gt;</code> for multiple elements</li>
-              <li>• Works seamlessly with service workers and offline functionality</li>
-            </ul>
-          </div>
+        <div class="bg-green-50 border border-green-200 rounded-lg p-6">
+          <h3 class="text-lg font-semibold text-green-900 mb-2">
+            PWA Installation
+          </h3>
+          <p class="text-green-700">
+            This app can be installed on your device! Look for the install prompt 
+            or use your browser's "Add to Home Screen" or "Install App" option.
+          </p>
+        </div>
+
+        <div class="bg-gray-50 rounded-lg p-6">
+          <h3 class="text-lg font-semibold text-gray-800 mb-2">
+            JSX Best Practices in PWA
+          </h3>
+          <ul class="text-sm text-gray-600 space-y-1">
+            <li>• Use <code class="bg-gray-200 px-1 rounded">class</code> instead of <code class="bg-gray-200 px-1 rounded">className</code></li>
+            <li>• Use lowercase event handlers: <code class="bg-gray-200 px-1 rounded">onclick</code></li>
+            <li>• Always provide <code class="bg-gray-200 px-1 rounded">key</code> props for list items</li>
+            <li>• Use fragments <code class="bg-gray-200 px-1 rounded">&lt;&gt;...&lt;/&gt;</code> for multiple elements</li>
+            <li>• Works seamlessly with service workers and offline functionality</li>
+          </ul>
         </div>
       </div>
-    );
-  }
-};
\ No newline at end of file
+    </div>
+  );
+});
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { CacheService as BaseCacheService, cached } from '../../shared/src/services/cache.service';
-import { platform } from '@marh/core';
+import { platform, register } from '@marh/core';
 
 /**
  * PWA Cache Service
@@ -249,8 +249,8 @@ export class PWACacheService extends BaseCacheService {
   }
 }
 
-// Export singleton instance
-export const cacheService = new PWACacheService();
+// Resolve with `use(PWACacheService)`
+register(PWACacheService, () => new PWACacheService());
 
 // Re-export decorator
 export { cached };
\ No newline at end of file
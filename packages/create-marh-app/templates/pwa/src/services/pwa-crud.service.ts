@@ -1,6 +1,5 @@
 import { MemoryCrudService } from '../../shared/src/services/memory-crud.service';
 import { BaseEntity, CrudConfig, PaginatedResult, QueryOptions } from '../../shared/src/services/crud.interface';
-import { cacheService } from './cache.service';
 
 /**
  * PWA CRUD Service
@@ -1,3 +1,4 @@
+import { register } from '@marh/core';
 import { PWACrudService } from './pwa-crud.service';
 import { BaseEntity } from '../../shared/src/services/crud.interface';
 
@@ -27,7 +28,7 @@ export interface User extends BaseEntity {
  * - Background sync
  * - Optimized for mobile performance
  */
-class UserService extends PWACrudService<User> {
+export class UserService extends PWACrudService<User> {
   constructor() {
     super({
       entityName: 'user',
@@ -317,14 +318,18 @@ class UserService extends PWACrudService<User> {
   }
 }
 
-// Export singleton instance
-export const userService = new UserService();
-
-// Setup PWA event listeners on initialization
-userService.setupPWAEventListeners();
+// Resolve with `use(UserService)`; PWA event listeners are set up when it's
+// created
+register(UserService, () => {
+  const service = new UserService();
+  service.setupPWAEventListeners();
+  return service;
+});
 
 // Example usage:
 /*
+const userService = use(UserService);
+
 // Create a new user (works offline)
 const user = await userService.createUser({
   name: 'Jane Doe',
@@ -1,3 +1,4 @@
+import { createToken, register } from '@marh/core';
 import { BaseAppStore, BaseAppState } from '../../shared/src/stores/base-app.store';
 
 /**
@@ -16,6 +17,8 @@ interface PWAAppState extends BaseAppState {
  * like online/offline status and install prompt handling.
  */
 class PWAAppStore extends BaseAppStore<PWAAppState> {
+  private readonly stopConnectionNotices: () => void;
+
   constructor() {
     super({
       ...super.prototype.getBaseResetState(),
@@ -24,23 +27,30 @@ class PWAAppStore extends BaseAppStore<PWAAppState> {
     } as PWAAppState);
 
     // Listen for online/offline events
-    window.addEventListener('online', () => {
-      this.setState({ isOnline: true });
-      this.addNotification('Connection restored', 'success');
-    });
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
 
-    window.addEventListener('offline', () => {
-      this.setState({ isOnline: false });
-      this.addNotification('You are now offline', 'warning');
+    this.stopConnectionNotices = this.effect(state => state.isOnline, isOnline => {
+      if (isOnline) {
+        this.addNotification('Connection restored', 'success');
+      } else {
+        this.addNotification('You are now offline', 'warning');
+      }
     });
 
     // Listen for PWA install prompt
-    window.addEventListener('beforeinstallprompt', (e) => {
-      e.preventDefault();
-      this.setState({ installPrompt: e });
-    });
+    window.addEventListener('beforeinstallprompt', this.handleInstallPrompt);
   }
 
+  private readonly handleOnline = () => this.setState({ isOnline: true });
+
+  private readonly handleOffline = () => this.setState({ isOnline: false });
+
+  private readonly handleInstallPrompt = (e: Event) => {
+    e.preventDefault();
+    this.setState({ installPrompt: e });
+  };
+
   /**
    * Get online status
    */
@@ -58,12 +68,23 @@ class PWAAppStore extends BaseAppStore<PWAAppState> {
   /**
    * Trigger PWA install prompt
    */
-  async promptInstall(): Promise<void> {
+  readonly promptInstall = this.action('promptInstall', async () => {
     if (this.state.installPrompt) {
       const result = await this.state.installPrompt.prompt();
       console.log('Install prompt result:', result);
       this.setState({ installPrompt: null });
     }
+  });
+
+  /**
+   * Also stop listening for connection changes and the install prompt
+   */
+  dispose(): void {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    window.removeEventListener('beforeinstallprompt', this.handleInstallPrompt);
+    this.stopConnectionNotices();
+    super.dispose();
   }
 
   /**
@@ -78,5 +99,10 @@ class PWAAppStore extends BaseAppStore<PWAAppState> {
   }
 }
 
-// Export a singleton instance
-export const appStore = new PWAAppStore();
\ No newline at end of file
+/**
+ * Container token for the app store. Resolve it with `use(AppStore)` in
+ * components, and call `resetContainer()` between tests for a fresh store;
+ * the old one is disposed.
+ */
+export const AppStore = createToken<PWAAppStore>('AppStore');
+register(AppStore, () => new PWAAppStore(), { dispose: store => store.dispose() });
\ No newline at end of file
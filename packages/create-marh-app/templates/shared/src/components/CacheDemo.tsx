@@ -1,6 +1,6 @@
 // @ts-ignore - This import will be available when template is used in a project
-import { m, MarhComponent } from '@marh/core';
-import { cacheService } from '../services/cache.service';
+import { m, use, MarhComponent } from '@marh/core';
+import { CacheService } from '../services/cache.service';
 
 // @ts-ignore - JSX types for template file
 declare global {
@@ -40,7 +40,7 @@ export const CacheDemo: MarhComponent = {
 
     try {
       const data = useCache
-        ? await cacheService.get<ApiData>(
+        ? await use(CacheService).get<ApiData>(
             'demo-api-data',
             async () => {
               // Simulate API call
@@ -73,6 +73,7 @@ export const CacheDemo: MarhComponent = {
   },
 
   view() {
+    const cacheService = use(CacheService);
     const stats = cacheService.getStats();
 
     return (
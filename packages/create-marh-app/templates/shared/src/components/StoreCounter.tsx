@@ -1,5 +1,5 @@
-import { m, MarhComponent } from '@marh/core';
-import { counterStore } from '../stores/counter.store';
+import { m, use, MarhComponent } from '@marh/core';
+import { CounterStore } from '../stores/counter.store';
 
 /**
  * Store Counter Component - Demonstrates global state management
@@ -11,6 +11,7 @@ import { counterStore } from '../stores/counter.store';
  */
 export const StoreCounter: MarhComponent = {
   view() {
+    const counterStore = use(CounterStore);
     return (
       <div class="bg-white rounded-lg shadow-md p-6">
         <h3 class="text-xl font-semibold text-gray-800 mb-4">
@@ -4,9 +4,11 @@
  * Tests for the cache demo component.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getContainer, resetContainer } from '@marh/core';
 import { TestUtils } from '../../test/setup';
 import { CacheDemo } from '../CacheDemo';
+import { CacheService } from '../../services/cache.service';
 
 // Mock the cache service
 const mockCacheService = {
@@ -24,14 +26,11 @@ const mockCacheService = {
   cleanup: vi.fn()
 };
 
-vi.mock('../cache.service', () => ({
-  cacheService: mockCacheService
-}));
-
 describe('CacheDemo Component', () => {
   let component: any;
 
   beforeEach(() => {
+    getContainer().provide(CacheService, mockCacheService as unknown as CacheService);
     component = TestUtils.createMockComponent(CacheDemo.view);
     
     // Reset component state
@@ -51,6 +50,10 @@ describe('CacheDemo Component', () => {
     });
   });
 
+  afterEach(() => {
+    resetContainer();
+  });
+
   describe('Component Initialization', () => {
     it('should initialize with default state', () => {
       expect(component.cacheKeys).toEqual([]);
@@ -5,10 +5,10 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { use } from '@marh/core';
 import { TestUtils, TEST_CONSTANTS } from '../../test/setup';
 import { 
   DatabaseFactory, 
-  databaseFactory, 
   DatabaseConfigBuilder, 
   DatabasePresets,
   createDatabase,
@@ -458,14 +458,14 @@ describe('Global Factory Functions', () => {
 
     registerDatabaseAdapter(customAdapter as any);
 
-    const adapters = databaseFactory.getAdapters();
+    const adapters = use(DatabaseFactory).getAdapters();
     expect(adapters.some(a => a.name === 'test-adapter')).toBe(true);
   });
 });
 
 describe('Singleton Factory', () => {
   it('should have built-in adapters registered', () => {
-    const adapters = databaseFactory.getAdapters();
+    const adapters = use(DatabaseFactory).getAdapters();
     
     expect(adapters.some(a => a.name === 'memory')).toBe(true);
     expect(adapters.some(a => a.name === 'rest-api')).toBe(true);
@@ -473,7 +473,7 @@ describe('Singleton Factory', () => {
 
   it('should create databases', () => {
     const config = DatabasePresets.memory('singleton-test');
-    const database = databaseFactory.create(config);
+    const database = use(DatabaseFactory).create(config);
 
     expect(database).toBeDefined();
     expect(database.config.name).toBe('singleton-test');
@@ -5,6 +5,7 @@
  * Handles adapter registration and configuration validation.
  */
 
+import { register, use } from '@marh/core';
 import { 
   IDatabaseFactory, 
   IDatabaseAdapter, 
@@ -12,6 +13,8 @@ import {
   DatabaseConfig,
   DatabaseError 
 } from './database.interface';
+import { MemoryDatabaseAdapter } from './adapters/memory-adapter';
+import { RestApiDatabaseAdapter } from './adapters/rest-api-adapter';
 
 /**
  * Database Factory Implementation
@@ -219,21 +222,27 @@ export class DatabaseFactory implements IDatabaseFactory {
   }
 }
 
-// Export singleton instance
-export const databaseFactory = new DatabaseFactory();
+// Resolve with `use(DatabaseFactory)`; comes with the built-in adapters and
+// destroys the databases it created when the container drops it
+register(DatabaseFactory, () => {
+  const factory = new DatabaseFactory();
+  factory.registerAdapter(new MemoryDatabaseAdapter());
+  factory.registerAdapter(new RestApiDatabaseAdapter());
+  return factory;
+}, { dispose: factory => factory.destroyAll() });
 
 /**
  * Convenience function to create database
  */
 export function createDatabase(config: DatabaseConfig): IDatabase {
-  return databaseFactory.create(config);
+  return use(DatabaseFactory).create(config);
 }
 
 /**
  * Convenience function to register adapter
  */
 export function registerDatabaseAdapter(adapter: IDatabaseAdapter): void {
-  databaseFactory.registerAdapter(adapter);
+  use(DatabaseFactory).registerAdapter(adapter);
 }
 
 /**
@@ -37,27 +37,19 @@ export * from './adapters/base-adapter';
 export { MemoryDatabaseAdapter } from './adapters/memory-adapter';
 export { RestApiDatabaseAdapter } from './adapters/rest-api-adapter';
 
-// Factory instance and convenience functions
+// Factory and convenience functions
+import { use } from '@marh/core';
 import { 
-  databaseFactory, 
+  DatabaseFactory, 
   createDatabase as createDatabaseInstance,
   registerDatabaseAdapter,
   DatabaseConfigBuilder,
   DatabasePresets
 } from './database-factory';
-import { MemoryDatabaseAdapter } from './adapters/memory-adapter';
-import { RestApiDatabaseAdapter } from './adapters/rest-api-adapter';
-
-// Register built-in adapters
-databaseFactory.registerAdapter(new MemoryDatabaseAdapter());
-databaseFactory.registerAdapter(new RestApiDatabaseAdapter());
 
 // Re-export factory functions
 export { createDatabaseInstance as createDatabase, registerDatabaseAdapter, DatabaseConfigBuilder, DatabasePresets };
 
-// Export the factory instance for advanced usage
-export { databaseFactory };
-
 /**
  * Quick start functions for common use cases
  */
@@ -89,12 +81,12 @@ export const Database = {
   /**
    * Get available database types for current platform
    */
-  getAvailableTypes: () => databaseFactory.getSupportedTypes(),
+  getAvailableTypes: () => use(DatabaseFactory).getSupportedTypes(),
 
   /**
    * Get configuration template for a database type
    */
-  getConfigTemplate: (type: string) => databaseFactory.getConfigTemplate(type)
+  getConfigTemplate: (type: string) => use(DatabaseFactory).getConfigTemplate(type)
 };
 
 /**
@@ -1,3 +1,5 @@
+import { register, use } from '@marh/core';
+
 /**
  * Cache entry with metadata
  */
@@ -200,10 +202,9 @@ export class CacheService {
   }
 }
 
-/**
- * Singleton instance of CacheService
- */
-export const cacheService = new CacheService();
+// Resolve with `use(CacheService)`; the platform templates register their own
+// cache services alongside it
+register(CacheService, () => new CacheService());
 
 /**
  * Cache decorator for methods
@@ -224,7 +225,7 @@ export function cached(ttl: number = 5 * 60 * 1000) {
 
     descriptor.value = async function (...args: any[]) {
       const key = `${target.constructor.name}.${propertyKey}:${JSON.stringify(args)}`;
-      return cacheService.get(key, () => originalMethod.apply(this, args), ttl);
+      return use(CacheService).get(key, () => originalMethod.apply(this, args), ttl);
     };
 
     return descriptor;
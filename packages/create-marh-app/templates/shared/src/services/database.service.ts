@@ -13,7 +13,7 @@ import {
   MigrationPatterns,
   IDatabase 
 } from '../database';
-import { platform } from '@marh/core';
+import { platform, register } from '@marh/core';
 
 /**
  * Database configuration based on environment
@@ -163,7 +163,7 @@ export const AppMigrations = [
 /**
  * Database service class
  */
-class DatabaseService {
+export class DatabaseService {
   private database: IDatabase;
   private isInitialized = false;
 
@@ -362,14 +362,12 @@ class DatabaseService {
   }
 }
 
-// Export singleton instance
-export const databaseService = new DatabaseService();
-
-// Initialize on import in non-test environments
-if (typeof process === 'undefined' || process.env.NODE_ENV !== 'test') {
-  databaseService.initialize().catch(console.error);
-}
-
-// Convenience exports
-export { DatabaseService };
-export default databaseService;
\ No newline at end of file
+// Resolve with `use(DatabaseService)`. It connects when first resolved, except
+// in tests, and shuts down when the container drops it.
+register(DatabaseService, () => {
+  const service = new DatabaseService();
+  if (typeof process === 'undefined' || process.env.NODE_ENV !== 'test') {
+    service.initialize().catch(console.error);
+  }
+  return service;
+}, { dispose: service => service.destroy().catch(console.error) });
\ No newline at end of file
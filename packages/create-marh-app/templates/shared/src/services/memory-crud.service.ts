@@ -1,5 +1,6 @@
 import { BaseCrudService, BaseEntity, QueryOptions, PaginatedResult, CrudConfig } from './crud.interface';
-import { cacheService } from './cache.service';
+import { use } from '@marh/core';
+import { CacheService } from './cache.service';
 
 /**
  * In-Memory CRUD Service
@@ -47,7 +48,7 @@ export class MemoryCrudService<T extends BaseEntity> extends BaseCrudService<T>
 
   async findById(id: string | number): Promise<T | null> {
     if (this.config.cache) {
-      return cacheService.get(
+      return use(CacheService).get(
         `${this.config.entityName}:${id}`,
         async () => this.data.get(id) || null,
         this.config.cacheTTL
@@ -127,7 +128,7 @@ export class MemoryCrudService<T extends BaseEntity> extends BaseCrudService<T>
 
     // Clear cache
     if (this.config.cache) {
-      cacheService.invalidate(`${this.config.entityName}:${id}`);
+      use(CacheService).invalidate(`${this.config.entityName}:${id}`);
       this.invalidateCache();
     }
 
@@ -154,7 +155,7 @@ export class MemoryCrudService<T extends BaseEntity> extends BaseCrudService<T>
 
     // Clear cache
     if (this.config.cache) {
-      cacheService.invalidate(`${this.config.entityName}:${id}`);
+      use(CacheService).invalidate(`${this.config.entityName}:${id}`);
       this.invalidateCache();
     }
 
@@ -198,7 +199,7 @@ export class MemoryCrudService<T extends BaseEntity> extends BaseCrudService<T>
   // ============ Helper Methods ============
 
   private invalidateCache(): void {
-    cacheService.invalidatePattern(new RegExp(`^${this.config.entityName}:`));
+    use(CacheService).invalidatePattern(new RegExp(`^${this.config.entityName}:`));
   }
 
   /**
@@ -1,4 +1,5 @@
-import { Store } from '@marh/core';
+import { Store, forgetStore, persist, sync } from '@marh/core';
+import type { Persistence, StoreSync } from '@marh/core';
 
 /**
  * Base App Store State Interface
@@ -7,7 +8,6 @@ import { Store } from '@marh/core';
 export interface BaseAppState {
   theme: 'light' | 'dark';
   sidebarOpen: boolean;
-  isLoading: boolean;
   notifications: Notification[];
 }
 
@@ -22,9 +22,30 @@ export interface Notification {
  * Base App Store - Shared functionality between desktop and PWA
  * 
  * This provides common app-wide state management that works
- * across both desktop and PWA templates.
+ * across both desktop and PWA templates. Theme and sidebar settings
+ * are saved to storage, restored on startup and shared between open
+ * windows and tabs.
  */
 export abstract class BaseAppStore<T extends BaseAppState = BaseAppState> extends Store<T> {
+  /**
+   * Resolves once the saved theme and sidebar settings have been restored
+   */
+  readonly hydrated: Promise<void>;
+
+  private readonly persistence: Persistence;
+
+  private readonly syncing: StoreSync;
+
+  constructor(initialState: T) {
+    super(initialState);
+    this.persistence = persist<T>(this, {
+      key: 'app-settings',
+      include: ['theme', 'sidebarOpen']
+    });
+    this.hydrated = this.persistence.hydrated;
+    this.syncing = sync<T>(this, { channel: 'app-settings', keys: ['theme', 'sidebarOpen'] });
+  }
+
   /**
    * Get current theme
    */
@@ -40,10 +61,10 @@ export abstract class BaseAppStore<T extends BaseAppState = BaseAppState> extend
   }
 
   /**
-   * Get loading state
+   * Whether any action declared with `this.action()` is running
    */
   get isLoading(): boolean {
-    return this.state.isLoading;
+    return this.isPending();
   }
 
   /**
@@ -85,13 +106,6 @@ export abstract class BaseAppStore<T extends BaseAppState = BaseAppState> extend
     this.setState({ sidebarOpen: open } as Partial<T>);
   }
 
-  /**
-   * Set global loading state
-   */
-  setLoading(loading: boolean): void {
-    this.setState({ isLoading: loading } as Partial<T>);
-  }
-
   /**
    * Add a notification
    */
@@ -129,6 +143,17 @@ export abstract class BaseAppStore<T extends BaseAppState = BaseAppState> extend
     this.setState({ notifications: [] } as Partial<T>);
   }
 
+  /**
+   * Save pending settings, stop persisting and syncing them and drop the
+   * store from devtools, e.g. before it's replaced between tests
+   */
+  dispose(): void {
+    this.persistence.flush();
+    this.persistence.stop();
+    this.syncing.stop();
+    forgetStore(this);
+  }
+
   /**
    * Get base reset state - override in subclasses to add platform-specific defaults
    */
@@ -136,7 +161,6 @@ export abstract class BaseAppStore<T extends BaseAppState = BaseAppState> extend
     return {
       theme: 'light',
       sidebarOpen: false,
-      isLoading: false,
       notifications: []
     };
   }
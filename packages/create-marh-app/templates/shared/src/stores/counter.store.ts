@@ -1,4 +1,4 @@
-import { Store } from '@marh/core';
+import { Store, register } from '@marh/core';
 
 /**
  * Counter Store State Interface
@@ -19,7 +19,7 @@ interface CounterState {
  * 
  * This is shared between desktop and PWA templates.
  */
-class CounterStore extends Store<CounterState> {
+export class CounterStore extends Store<CounterState> {
   constructor() {
     super({
       count: 0,
@@ -84,5 +84,5 @@ class CounterStore extends Store<CounterState> {
   }
 }
 
-// Export a singleton instance
-export const counterStore = new CounterStore();
\ No newline at end of file
+// Resolve with `use(CounterStore)`; created on first use
+register(CounterStore, () => new CounterStore());
\ No newline at end of file
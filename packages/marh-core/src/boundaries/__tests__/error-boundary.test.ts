@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import m from 'mithril';
+import { withHooks } from '../../hooks/runtime';
+import { ErrorBoundary } from '../error-boundary';
+import { Suspense, useSuspense } from '../suspense';
+
+describe('ErrorBoundary', () => {
+  let root: HTMLElement;
+  let broken: boolean;
+
+  const Widget: m.Component = {
+    view: () => {
+      if (broken) throw new Error('broken widget');
+      return m('p', 'widget');
+    }
+  };
+
+  function mount(attrs: Partial<m.Attributes> = {}, children: m.Children = m(Widget)): void {
+    m.mount(root, { view: () => m(ErrorBoundary, { fallback: m('p', 'fallback'), onError: () => {}, ...attrs }, children) });
+    // The boundary renders its fallback on the redraw after the error
+    m.redraw.sync();
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    broken = false;
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+    vi.restoreAllMocks();
+  });
+
+  it('renders the children when nothing throws', () => {
+    mount();
+
+    expect(root.textContent).toBe('widget');
+  });
+
+  it('renders the fallback when a child view throws', () => {
+    broken = true;
+
+    mount();
+
+    expect(root.textContent).toBe('fallback');
+  });
+
+  it('catches errors from lifecycle hooks', () => {
+    const Failing: m.Component = {
+      oninit: () => {
+        throw new Error('init failed');
+      },
+      view: () => m('p', 'never')
+    };
+
+    mount({}, [m('p', 'before'), m(Failing)]);
+
+    expect(root.textContent).toBe('fallback');
+  });
+
+  it('catches errors from element lifecycle attrs', () => {
+    mount({}, m('div', { oncreate: () => { throw new Error('oncreate failed'); } }));
+
+    expect(root.textContent).toBe('fallback');
+  });
+
+  it('catches errors from components deep inside', () => {
+    broken = true;
+    const Layout: m.Component = { view: ({ children }) => m('main', m('section', children)) };
+
+    mount({}, m(Layout, m(Widget)));
+
+    expect(root.textContent).toBe('fallback');
+  });
+
+  it('reports the first error once to onError', () => {
+    broken = true;
+    const onError = vi.fn();
+
+    mount({ onError }, [m(Widget), m(Widget)]);
+    m.redraw.sync();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(new Error('broken widget'));
+  });
+
+  it('logs the error without onError', () => {
+    broken = true;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mount({ onError: undefined });
+
+    expect(error).toHaveBeenCalledWith('ErrorBoundary caught an error:', new Error('broken widget'));
+  });
+
+  it('passes the error and a reset callback to a fallback function', () => {
+    broken = true;
+    let reset!: () => void;
+    mount({
+      fallback: (error: Error, retry: () => void) => {
+        reset = retry;
+        return m('p', error.message);
+      }
+    });
+    expect(root.textContent).toBe('broken widget');
+
+    broken = false;
+    reset();
+    m.redraw.sync();
+
+    expect(root.textContent).toBe('widget');
+  });
+
+  it('renders the children again when the reset attr changes', () => {
+    broken = true;
+    let path = '/a';
+    m.mount(root, {
+      view: () => m(ErrorBoundary, { fallback: m('p', 'fallback'), onError: () => {}, reset: path }, m(Widget))
+    });
+    m.redraw.sync();
+    expect(root.textContent).toBe('fallback');
+
+    broken = false;
+    path = '/b';
+    m.redraw.sync();
+
+    expect(root.textContent).toBe('widget');
+  });
+
+  it('leaves the outer boundary alone when a nested one catches', () => {
+    broken = true;
+    m.mount(root, {
+      view: () =>
+        m(ErrorBoundary, { fallback: m('p', 'outer'), onError: () => {} }, [
+          m('h1', 'title'),
+          m(ErrorBoundary, { fallback: m('p', 'inner'), onError: () => {} }, m(Widget))
+        ])
+    });
+    m.redraw.sync();
+
+    expect(root.textContent).toBe('titleinner');
+  });
+
+  it('catches errors from inside a Suspense', () => {
+    broken = true;
+    const Loading = withHooks(() => {
+      useSuspense(true);
+      return m(Widget);
+    });
+
+    mount({}, m(Suspense, { fallback: m('p', 'loading') }, m(Loading)));
+
+    expect(root.textContent).toBe('fallback');
+  });
+
+  it('does not catch errors from event handlers', () => {
+    mount({}, m('button', { onclick: () => { throw new Error('click failed'); } }));
+    const button = root.querySelector('button')!;
+    const error = vi.fn((event: ErrorEvent) => event.preventDefault());
+    window.addEventListener('error', error);
+
+    button.dispatchEvent(new Event('click'));
+    m.redraw.sync();
+
+    window.removeEventListener('error', error);
+    expect(error).toHaveBeenCalled();
+    expect(root.querySelector('button')).not.toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import m from 'mithril';
+import { withHooks, useState, type SetState } from '../../hooks/runtime';
+import { useAsync } from '../../hooks/useAsync';
+import { Suspense, useSuspense } from '../suspense';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+// Lets pending requests settle, then renders the state they left behind
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  m.redraw.sync();
+}
+
+describe('Suspense', () => {
+  let root: HTMLElement;
+  const loading = new Map<string, SetState<boolean>>();
+
+  // Pending until its `loading` setter is called with false
+  const Panel = withHooks<{ name: string }>(({ name }) => {
+    const [isLoading, setLoading] = useState(true);
+    loading.set(name, setLoading);
+    useSuspense(isLoading);
+    return m('section', { id: name }, name);
+  });
+
+  const fallback = () => root.querySelector('.spinner');
+  const panel = (name: string) => root.querySelector(`#${name}`)!;
+
+  function finish(name: string): void {
+    loading.get(name)!(false);
+    m.redraw.sync();
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    loading.clear();
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+  });
+
+  it('shows the fallback on the first render, before any content', () => {
+    m.mount(root, { view: () => m(Suspense, { fallback: m('p.spinner', 'loading') }, m(Panel, { name: 'profile' })) });
+
+    expect(fallback()).not.toBeNull();
+    expect(panel('profile').hasAttribute('hidden')).toBe(true);
+  });
+
+  it('shows the content once it has loaded', () => {
+    m.mount(root, { view: () => m(Suspense, { fallback: m('p.spinner', 'loading') }, m(Panel, { name: 'profile' })) });
+
+    finish('profile');
+
+    expect(fallback()).toBeNull();
+    expect(panel('profile').hasAttribute('hidden')).toBe(false);
+    expect(root.textContent).toBe('profile');
+  });
+
+  it('waits for every child', () => {
+    m.mount(root, {
+      view: () => m(Suspense, { fallback: m('p.spinner') }, [m(Panel, { name: 'profile' }), m(Panel, { name: 'posts' })])
+    });
+
+    finish('profile');
+    expect(fallback()).not.toBeNull();
+    expect(panel('profile').hasAttribute('hidden')).toBe(true);
+
+    finish('posts');
+    expect(fallback()).toBeNull();
+  });
+
+  it('keeps the children mounted while waiting', () => {
+    m.mount(root, { view: () => m(Suspense, { fallback: m('p.spinner') }, m(Panel, { name: 'profile' })) });
+    const section = panel('profile');
+
+    finish('profile');
+
+    expect(panel('profile')).toBe(section);
+  });
+
+  it('leaves elements hidden by the app hidden', () => {
+    m.mount(root, {
+      view: () => m(Suspense, { fallback: m('p.spinner') }, [m('aside#help', { hidden: true }), m(Panel, { name: 'profile' })])
+    });
+
+    finish('profile');
+
+    expect(panel('help').hasAttribute('hidden')).toBe(true);
+  });
+
+  it('stops waiting for a child that is removed', () => {
+    let show = true;
+    m.mount(root, { view: () => m(Suspense, { fallback: m('p.spinner') }, show ? m(Panel, { name: 'profile' }) : null) });
+
+    show = false;
+    m.redraw.sync();
+    m.redraw.sync();
+
+    expect(fallback()).toBeNull();
+  });
+
+  it('leaves the outer boundary alone when a nested one handles the loading', () => {
+    m.mount(root, {
+      view: () =>
+        m(Suspense, { fallback: m('p.spinner.outer') }, [
+          m('h1#title', 'Profile'),
+          m(Suspense, { fallback: m('p.spinner.inner') }, m(Panel, { name: 'posts' }))
+        ])
+    });
+
+    expect(root.querySelector('.outer')).toBeNull();
+    expect(root.querySelector('.inner')).not.toBeNull();
+    expect(panel('title').hasAttribute('hidden')).toBe(false);
+  });
+
+  describe('with useAsync', () => {
+    it('shows the fallback for the first load only', async () => {
+      const responses: ReturnType<typeof deferred<string>>[] = [];
+      let setUserId!: SetState<number>;
+      const User = withHooks(() => {
+        const [userId, setId] = useState(1);
+        setUserId = setId;
+        const { data } = useAsync(() => {
+          const response = deferred<string>();
+          responses.push(response);
+          return response.promise;
+        }, [userId]);
+        return m('p#user', data ?? 'none');
+      });
+      m.mount(root, { view: () => m(Suspense, { fallback: m('p.spinner') }, m(User)) });
+      expect(fallback()).not.toBeNull();
+
+      responses[0].resolve('Ada');
+      await settle();
+      expect(fallback()).toBeNull();
+      expect(root.textContent).toBe('Ada');
+
+      setUserId(2);
+      m.redraw.sync();
+      await settle();
+      expect(fallback()).toBeNull();
+      expect(panel('user').hasAttribute('hidden')).toBe(false);
+    });
+  });
+});
+
+describe('useSuspense', () => {
+  it('does nothing outside a Suspense', () => {
+    const root = document.createElement('div');
+    const Panel = withHooks(() => {
+      useSuspense(true);
+      return m('p', 'content');
+    });
+
+    m.mount(root, Panel);
+
+    expect(root.textContent).toBe('content');
+    m.mount(root, null);
+  });
+});
@@ -0,0 +1,64 @@
+import m from 'mithril';
+import { createScope, guardChildren } from './scope';
+
+export interface ErrorBoundaryAttrs {
+  /** Rendered in place of the children after an error; a function also gets a `reset` callback */
+  fallback: m.Children | ((error: Error, reset: () => void) => m.Children);
+  /** Called once per caught error, e.g. to report it; errors are logged without it */
+  onError?: (error: Error) => void;
+  /** Clear the error when this value changes, e.g. the route path */
+  reset?: unknown;
+}
+
+/**
+ * Render `fallback` instead of the children once one of them throws from
+ * its view or a lifecycle hook, so the error doesn't take down the whole
+ * app. Errors in event handlers and async code aren't caught.
+ *
+ *   <ErrorBoundary
+ *     fallback={(error, reset) => <p>{error.message} <button onclick={reset}>Retry</button></p>}
+ *     reset={Router.get()}
+ *   >
+ *     <Dashboard />
+ *   </ErrorBoundary>
+ */
+export const ErrorBoundary: m.ClosureComponent<ErrorBoundaryAttrs> = initial => {
+  let error: Error | null = null;
+  let resetKey = initial.attrs.reset;
+  let onError = initial.attrs.onError;
+
+  const reset = () => {
+    if (!error) return;
+    error = null;
+    m.redraw();
+  };
+
+  const scope = createScope({
+    capture: caught => {
+      // Later errors are usually fallout from the first, e.g. siblings' hooks
+      if (error) return;
+      error = caught;
+      if (onError) {
+        onError(caught);
+      } else {
+        console.error('ErrorBoundary caught an error:', caught);
+      }
+      m.redraw();
+    }
+  });
+
+  return {
+    view: ({ attrs, children }) => {
+      onError = attrs.onError;
+      if (!Object.is(attrs.reset, resetKey)) {
+        resetKey = attrs.reset;
+        error = null;
+      }
+
+      if (error) {
+        return typeof attrs.fallback === 'function' ? attrs.fallback(error, reset) : attrs.fallback;
+      }
+      return guardChildren(children, scope);
+    }
+  };
+};
@@ -0,0 +1,149 @@
+import m from 'mithril';
+
+/**
+ * Tracks the pending async work reported from inside a `Suspense`
+ */
+export interface SuspenseHandle {
+  setPending(token: object, pending: boolean): void;
+}
+
+/**
+ * What the components inside a boundary report to: thrown errors go to the
+ * nearest `ErrorBoundary`, pending work to the nearest `Suspense`
+ */
+export interface BoundaryScope {
+  capture: ((error: Error) => void) | null;
+  suspense: SuspenseHandle | null;
+}
+
+const LIFECYCLE_HOOKS = ['oninit', 'oncreate', 'onbeforeupdate', 'onupdate', 'onbeforeremove', 'onremove'];
+
+// Scope of the component whose view or hook is running
+let activeScope: BoundaryScope | null = null;
+
+// Guarded components by scope, cached so redraws diff instead of re-mounting
+const guardedComponents = new WeakMap<BoundaryScope, Map<m.ComponentTypes<any>, m.ClosureComponent<any>>>();
+const guardedOriginals = new WeakMap<object, unknown>();
+
+export function currentScope(): BoundaryScope | null {
+  return activeScope;
+}
+
+/**
+ * Scope for a new boundary, inheriting whatever it doesn't handle itself
+ * from the boundary it's rendered in
+ */
+export function createScope(handles: Partial<BoundaryScope>): BoundaryScope {
+  return {
+    capture: handles.capture ?? activeScope?.capture ?? null,
+    suspense: handles.suspense ?? activeScope?.suspense ?? null
+  };
+}
+
+function report(scope: BoundaryScope, error: unknown): void {
+  if (!scope.capture) throw error;
+  scope.capture(error instanceof Error ? error : new Error(String(error)));
+}
+
+// Run `fn` as part of `scope`, reporting what it throws
+function runIn<R>(scope: BoundaryScope, fn: () => R): R | undefined {
+  const previous = activeScope;
+  activeScope = scope;
+  try {
+    return fn();
+  } catch (error) {
+    report(scope, error);
+    return undefined;
+  } finally {
+    activeScope = previous;
+  }
+}
+
+// `self` replaces the `this` Mithril calls the hook with, e.g. the component's own state
+function guardHook(hook: (...args: any[]) => any, scope: BoundaryScope, self?: unknown): (...args: any[]) => any {
+  const guarded = function (this: unknown, ...args: any[]) {
+    return runIn(scope, () => hook.apply(self ?? this, args));
+  };
+  guardedOriginals.set(guarded, hook);
+  return guarded;
+}
+
+// Lifecycle attrs of elements and components, e.g. `oncreate`
+function guardAttrs(attrs: Record<string, any>, scope: BoundaryScope): void {
+  LIFECYCLE_HOOKS.forEach(name => {
+    const hook = attrs[name];
+    if (typeof hook === 'function' && !guardedOriginals.has(hook)) {
+      attrs[name] = guardHook(hook, scope);
+    }
+  });
+}
+
+function instantiate(component: any, vnode: m.Vnode<any>): any {
+  if (typeof component !== 'function') {
+    return Object.create(component);
+  }
+  return component.prototype && typeof component.prototype.view === 'function'
+    ? new component(vnode)
+    : component(vnode);
+}
+
+function guardComponent(component: m.ComponentTypes<any>, scope: BoundaryScope): m.ClosureComponent<any> {
+  let byComponent = guardedComponents.get(scope);
+  if (!byComponent) {
+    byComponent = new Map();
+    guardedComponents.set(scope, byComponent);
+  }
+
+  let guarded = byComponent.get(component);
+  if (!guarded) {
+    guarded = vnode => {
+      const state = runIn(scope, () => instantiate(component, vnode));
+      if (state === undefined) {
+        return { view: () => null };
+      }
+
+      // `vnode.state` reads and writes go to the component's own state
+      return new Proxy(state, {
+        get(target, key) {
+          const value = Reflect.get(target, key);
+          if (key === 'view' && typeof value === 'function') {
+            return (node: m.Vnode<any>) => guardChildren(runIn(scope, () => value.call(target, node)) ?? null, scope);
+          }
+          if (typeof key === 'string' && LIFECYCLE_HOOKS.includes(key) && typeof value === 'function') {
+            return guardHook(value, scope, target);
+          }
+          return value;
+        }
+      });
+    };
+    guardedOriginals.set(guarded, component);
+    byComponent.set(component, guarded);
+  }
+  return guarded;
+}
+
+function isVnode(child: unknown): child is m.Vnode<any> {
+  return typeof child === 'object' && child !== null && 'tag' in child;
+}
+
+/**
+ * Make the components and lifecycle hooks in `children` report to `scope`.
+ * Components are guarded as they're rendered, so this reaches the whole
+ * subtree. Parts already guarded by a nested boundary are left alone.
+ */
+export function guardChildren(children: m.Children, scope: BoundaryScope): m.Children {
+  if (Array.isArray(children)) {
+    children.forEach(child => guardChildren(child, scope));
+  } else if (isVnode(children)) {
+    const vnode = children as m.Vnode<any> & { tag: any };
+    if (vnode.attrs) {
+      guardAttrs(vnode.attrs, scope);
+    }
+    if (typeof vnode.tag === 'string') {
+      guardChildren(vnode.children as m.Children, scope);
+    } else if (!guardedOriginals.has(vnode.tag)) {
+      vnode.tag = guardComponent(vnode.tag, scope);
+    }
+  }
+  return children;
+}
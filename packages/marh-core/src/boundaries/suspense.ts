@@ -0,0 +1,94 @@
+import m from 'mithril';
+import { useEffect, useRef } from '../hooks/runtime';
+import { getLoaderState } from '../router/loaders';
+import { createScope, currentScope, guardChildren, type SuspenseHandle } from './scope';
+
+export interface SuspenseAttrs {
+  /** Rendered while anything inside is loading */
+  fallback: m.Children;
+  /** Also wait for the current route's loader (default: false) */
+  routeLoader?: boolean;
+}
+
+/**
+ * Render `fallback` while components inside are loading their first data
+ * with `useAsync`, `useQuery` or `useSuspense`. The children stay mounted
+ * but hidden meanwhile, so their requests keep running.
+ *
+ *   <Suspense fallback={<Spinner />}>
+ *     <UserProfile userId={id} />
+ *     <UserPosts userId={id} />
+ *   </Suspense>
+ */
+export const Suspense: m.ClosureComponent<SuspenseAttrs> = () => {
+  const pending = new Set<object>();
+  // Elements this boundary hid, so it never unhides one hidden by the app
+  const hidden = new Set<Element>();
+  // Mithril fills in its `dom` and `domSize` when it renders
+  let content: m.VnodeDOM<any> | null = null;
+  let routeLoader = false;
+
+  const handle: SuspenseHandle = {
+    setPending: (token, isPending) => {
+      if (pending.has(token) === isPending) return;
+      if (isPending) {
+        pending.add(token);
+      } else {
+        pending.delete(token);
+      }
+      m.redraw();
+    }
+  };
+  const scope = createScope({ suspense: handle });
+
+  const waiting = () => pending.size > 0 || (routeLoader && getLoaderState().loading);
+
+  // Rendered after the children, whose views report pending work as they run
+  const Fallback: m.Component<{ fallback: m.Children }> = {
+    view: ({ attrs }) => (waiting() ? attrs.fallback : null)
+  };
+
+  // Runs once the children are in the DOM and before the browser paints
+  const toggleContent = () => {
+    const hide = waiting();
+    let node: Node | null = content?.dom ?? null;
+    for (let i = 0; node && i < (content?.domSize ?? 1); i++, node = node.nextSibling) {
+      if (!(node instanceof Element)) continue;
+      if (hide && !node.hasAttribute('hidden')) {
+        node.setAttribute('hidden', '');
+        hidden.add(node);
+      } else if (!hide && hidden.has(node)) {
+        node.removeAttribute('hidden');
+      }
+    }
+    if (!hide) hidden.clear();
+  };
+
+  return {
+    view: ({ attrs, children }) => {
+      routeLoader = attrs.routeLoader === true;
+      content = m.fragment({}, [guardChildren(children, scope)]) as m.VnodeDOM<any>;
+      return [content, m(Fallback, { fallback: attrs.fallback })];
+    },
+    oncreate: toggleContent,
+    onupdate: toggleContent
+  };
+};
+
+/**
+ * Show the nearest `Suspense` fallback while `pending` is true. Call it
+ * from a `withHooks` component; outside a `Suspense` it does nothing.
+ */
+export function useSuspense(pending: boolean): void {
+  const suspense = currentScope()?.suspense ?? null;
+  const token = useRef<object>({}).current;
+  const reported = useRef<SuspenseHandle | null>(null);
+
+  if (reported.current !== suspense) {
+    reported.current?.setPending(token, false);
+    reported.current = suspense;
+  }
+  suspense?.setPending(token, pending);
+
+  useEffect(() => () => reported.current?.setPending(token, false), []);
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import m from 'mithril';
+import { withHooks, useState, useEffect, useMemo, useRef, type SetState } from '../runtime';
+
+describe('withHooks', () => {
+  let root: HTMLElement;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+    vi.restoreAllMocks();
+  });
+
+  describe('hook state', () => {
+    it('keeps each hook\'s value across redraws', () => {
+      let setCount!: SetState<number>;
+      let setLabel!: SetState<string>;
+      const Counter = withHooks(() => {
+        const [count, setCountState] = useState(0);
+        const [label, setLabelState] = useState('clicks');
+        const renders = useRef(0);
+        renders.current++;
+        setCount = setCountState;
+        setLabel = setLabelState;
+        return m('p', `${count} ${label} ${renders.current}`);
+      });
+      m.mount(root, Counter);
+
+      setCount(2);
+      m.redraw.sync();
+      setLabel('taps');
+      m.redraw.sync();
+
+      expect(root.textContent).toBe('2 taps 3');
+    });
+
+    it('gives each mounted instance its own state', () => {
+      const setters: SetState<number>[] = [];
+      const Counter = withHooks<{ name: string }>(({ name }) => {
+        const [count, setCount] = useState(0);
+        setters.push(setCount);
+        return m('p', `${name} ${count}`);
+      });
+      m.mount(root, { view: () => [m(Counter, { name: 'a' }), m(Counter, { name: 'b' })] });
+
+      setters[1](5);
+      m.redraw.sync();
+
+      expect(root.textContent).toBe('a 0b 5');
+    });
+
+    it('passes the previous value to updater functions', () => {
+      let increment!: () => void;
+      const Counter = withHooks(() => {
+        const [count, setCount] = useState(() => 1);
+        increment = () => setCount(prev => prev + 1);
+        return m('p', count);
+      });
+      m.mount(root, Counter);
+
+      increment();
+      increment();
+      m.redraw.sync();
+
+      expect(root.textContent).toBe('3');
+    });
+
+    it('redraws only when the value changes', () => {
+      const redraw = vi.spyOn(m, 'redraw');
+      let setCount!: SetState<number>;
+      const Counter = withHooks(() => {
+        const [count, set] = useState(0);
+        setCount = set;
+        return m('p', count);
+      });
+      m.mount(root, Counter);
+      redraw.mockClear();
+
+      setCount(0);
+      expect(redraw).not.toHaveBeenCalled();
+
+      setCount(1);
+      expect(redraw).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores updates once the component is removed', () => {
+      const redraw = vi.spyOn(m, 'redraw');
+      let setCount!: SetState<number>;
+      const Counter = withHooks(() => {
+        const [count, set] = useState(0);
+        setCount = set;
+        return m('p', count);
+      });
+      m.mount(root, Counter);
+      m.mount(root, null);
+      redraw.mockClear();
+
+      setCount(1);
+
+      expect(redraw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hook order', () => {
+    it('fails the redraw when hooks are called in a different order', () => {
+      let showRef = false;
+      const Conditional = withHooks(() => {
+        if (showRef) useRef(null);
+        const [count] = useState(0);
+        return m('p', count);
+      });
+      m.mount(root, Conditional);
+      // Mithril logs errors thrown while redrawing
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      showRef = true;
+      m.redraw.sync();
+
+      expect(error).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('Hook 0 was a state hook and is now a ref hook') })
+      );
+    });
+
+    it('throws when a hook is called outside a withHooks component', () => {
+      expect(() => useState(0)).toThrow('useState can only be called while rendering a withHooks component');
+    });
+  });
+
+  describe('useEffect', () => {
+    it('runs after the DOM is created', () => {
+      let text: string | null = null;
+      const Title = withHooks(() => {
+        useEffect(() => {
+          text = root.textContent;
+        }, []);
+        return m('h1', 'hello');
+      });
+
+      m.mount(root, Title);
+
+      expect(text).toBe('hello');
+    });
+
+    it('runs again only when a dep changes, cleaning up the previous run first', () => {
+      const calls: string[] = [];
+      let setId!: SetState<number>;
+      let setOther!: SetState<number>;
+      const Subscription = withHooks(() => {
+        const [id, setIdState] = useState(1);
+        const [other, setOtherState] = useState(0);
+        setId = setIdState;
+        setOther = setOtherState;
+        useEffect(() => {
+          calls.push(`subscribe ${id}`);
+          return () => calls.push(`unsubscribe ${id}`);
+        }, [id]);
+        return m('p', `${id} ${other}`);
+      });
+      m.mount(root, Subscription);
+
+      setOther(1);
+      m.redraw.sync();
+      expect(calls).toEqual(['subscribe 1']);
+
+      setId(2);
+      m.redraw.sync();
+      expect(calls).toEqual(['subscribe 1', 'unsubscribe 1', 'subscribe 2']);
+    });
+
+    it('runs after every render without deps', () => {
+      const effect = vi.fn();
+      const Logger = withHooks(() => {
+        useEffect(effect);
+        return m('p');
+      });
+      m.mount(root, Logger);
+
+      m.redraw.sync();
+      m.redraw.sync();
+
+      expect(effect).toHaveBeenCalledTimes(3);
+    });
+
+    it('cleans up when the component is removed', () => {
+      const cleanup = vi.fn();
+      const effect = vi.fn();
+      let show = true;
+      const Timer = withHooks(() => {
+        useEffect(() => cleanup, []);
+        useEffect(effect, []);
+        return m('p');
+      });
+      m.mount(root, { view: () => (show ? m(Timer) : null) });
+
+      show = false;
+      m.redraw.sync();
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      m.redraw.sync();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useMemo', () => {
+    it('recomputes only when a dep changes', () => {
+      const factory = vi.fn((count: number) => ({ doubled: count * 2 }));
+      const results: { doubled: number }[] = [];
+      let setCount!: SetState<number>;
+      let setLabel!: SetState<string>;
+      const Doubler = withHooks(() => {
+        const [count, setCountState] = useState(1);
+        const [label, setLabelState] = useState('a');
+        setCount = setCountState;
+        setLabel = setLabelState;
+        const result = useMemo(() => factory(count), [count]);
+        results.push(result);
+        return m('p', `${label} ${result.doubled}`);
+      });
+      m.mount(root, Doubler);
+
+      setLabel('b');
+      m.redraw.sync();
+      expect(results[1]).toBe(results[0]);
+      expect(factory).toHaveBeenCalledTimes(1);
+
+      setCount(4);
+      m.redraw.sync();
+      expect(results[2]).toEqual({ doubled: 8 });
+      expect(factory).toHaveBeenCalledTimes(2);
+      expect(root.textContent).toBe('b 8');
+    });
+  });
+
+  describe('useRef', () => {
+    it('keeps the same object without redrawing when changed', () => {
+      const redrawSync = m.redraw.sync;
+      const redraw = vi.spyOn(m, 'redraw');
+      const refs: { current: number }[] = [];
+      const Counter = withHooks(() => {
+        const ref = useRef(0);
+        refs.push(ref);
+        return m('p');
+      });
+      m.mount(root, Counter);
+      redraw.mockClear();
+
+      refs[0].current = 5;
+      redrawSync();
+
+      expect(refs[1]).toBe(refs[0]);
+      expect(refs[1].current).toBe(5);
+      expect(redraw).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import m from 'mithril';
+import { withHooks, useState, type SetState } from '../runtime';
+import { useAsync, useAsyncCallback, type AsyncState } from '../useAsync';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Lets the request settle, then renders the state it left behind
+async function settle(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  m.redraw.sync();
+}
+
+describe('useAsync', () => {
+  let root: HTMLElement;
+  let requests: { id: number; signal: AbortSignal; response: ReturnType<typeof deferred<string>> }[];
+  let state: AsyncState<string> & { execute: () => Promise<string | undefined>; abort: () => void };
+  let setUserId: SetState<number>;
+
+  // Ignores its signal, like a request that can't be cancelled
+  const fetchUser = (signal: AbortSignal, id: number) => {
+    const response = deferred<string>();
+    requests.push({ id, signal, response });
+    return response.promise;
+  };
+
+  function mountProfile(options: Parameters<typeof useAsync>[2] = {}) {
+    const Profile = withHooks(() => {
+      const [userId, setId] = useState(1);
+      setUserId = setId;
+      state = useAsync(signal => fetchUser(signal, userId), [userId], options);
+      return m('p', `${state.status} ${state.data ?? 'none'}`);
+    });
+    m.mount(root, Profile);
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    requests = [];
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+  });
+
+  it('loads when the component is created', async () => {
+    mountProfile();
+    expect(root.textContent).toBe('loading none');
+    expect(requests).toHaveLength(1);
+
+    requests[0].response.resolve('Ada');
+    await settle();
+
+    expect(root.textContent).toBe('success Ada');
+    expect(state).toMatchObject({ data: 'Ada', loading: false, error: null });
+  });
+
+  it('refetches when deps change, keeping the previous data meanwhile', async () => {
+    mountProfile();
+    requests[0].response.resolve('Ada');
+    await settle();
+
+    setUserId(2);
+    m.redraw.sync();
+    // The refetch starts after that render and shows on the next one
+    await settle();
+
+    expect(requests.map(request => request.id)).toEqual([1, 2]);
+    expect(root.textContent).toBe('loading Ada');
+
+    requests[1].response.resolve('Grace');
+    await settle();
+
+    expect(root.textContent).toBe('success Grace');
+  });
+
+  it('does not refetch on redraws when deps are unchanged', async () => {
+    mountProfile();
+
+    m.redraw.sync();
+    m.redraw.sync();
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('aborts a superseded request and ignores its result', async () => {
+    mountProfile();
+
+    setUserId(2);
+    m.redraw.sync();
+    expect(requests[0].signal.aborted).toBe(true);
+    expect(requests[1].signal.aborted).toBe(false);
+
+    requests[1].response.resolve('Grace');
+    await settle();
+    requests[0].response.resolve('Ada');
+    await settle();
+
+    expect(root.textContent).toBe('success Grace');
+  });
+
+  it('aborts the request when the component is removed', async () => {
+    mountProfile();
+
+    m.mount(root, null);
+
+    expect(requests[0].signal.aborted).toBe(true);
+  });
+
+  it('keeps the data and records the error when a request fails', async () => {
+    mountProfile();
+    requests[0].response.resolve('Ada');
+    await settle();
+
+    setUserId(2);
+    m.redraw.sync();
+    requests[1].response.reject(new Error('offline'));
+    await settle();
+
+    expect(state).toMatchObject({ data: 'Ada', status: 'error', error: new Error('offline'), loading: false });
+  });
+
+  it('waits for execute when not immediate', async () => {
+    mountProfile({ immediate: false });
+    expect(root.textContent).toBe('idle none');
+    expect(requests).toHaveLength(0);
+
+    const result = state.execute();
+    requests[0].response.resolve('Ada');
+
+    await expect(result).resolves.toBe('Ada');
+    await settle();
+    expect(root.textContent).toBe('success Ada');
+  });
+
+  it('sets the status to aborted on abort', async () => {
+    mountProfile();
+
+    state.abort();
+    await settle();
+
+    expect(requests[0].signal.aborted).toBe(true);
+    expect(state).toMatchObject({ status: 'aborted', loading: false, error: null });
+  });
+});
+
+describe('useAsyncCallback', () => {
+  let root: HTMLElement;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+  });
+
+  it('aborts the call in flight when called again', async () => {
+    const signals: AbortSignal[] = [];
+    const save = vi.fn((signal: AbortSignal, name: string) => {
+      signals.push(signal);
+      return Promise.resolve(name);
+    });
+    let run!: (name: string) => Promise<string | undefined>;
+    let saving!: AsyncState<string>;
+    const Form = withHooks(() => {
+      [run, saving] = useAsyncCallback(save);
+      return m('form');
+    });
+    m.mount(root, Form);
+    expect(saving.status).toBe('idle');
+    expect(save).not.toHaveBeenCalled();
+
+    const first = run('Ada');
+    const second = run('Grace');
+
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).resolves.toBe('Grace');
+    expect(signals[0].aborted).toBe(true);
+    await settle();
+    expect(saving).toMatchObject({ status: 'success', data: 'Grace' });
+  });
+});
@@ -0,0 +1,193 @@
+import m from 'mithril';
+
+export type SetState<T> = (value: T | ((prev: T) => T)) => void;
+
+export type EffectCallback = () => void | (() => void);
+
+export interface Ref<T> {
+  current: T;
+}
+
+/**
+ * Render function of a hooks component; called on every redraw
+ */
+export type HookRender<Attrs> = (attrs: Attrs, vnode: m.Vnode<Attrs>) => m.Children;
+
+interface StateSlot {
+  kind: 'state';
+  value: any;
+  set: SetState<any>;
+}
+
+interface EffectSlot {
+  kind: 'effect';
+  deps: readonly unknown[] | undefined;
+  cleanup?: () => void;
+}
+
+interface MemoSlot {
+  kind: 'memo';
+  deps: readonly unknown[];
+  value: any;
+}
+
+interface RefSlot {
+  kind: 'ref';
+  ref: Ref<any>;
+}
+
+type Slot = StateSlot | EffectSlot | MemoSlot | RefSlot;
+
+// Hook state of one mounted component
+interface HookInstance {
+  slots: Slot[];
+  index: number;
+  // Effects whose deps changed during the last render, run after it's committed
+  pending: { slot: EffectSlot; effect: EffectCallback }[];
+  removed: boolean;
+}
+
+let current: HookInstance | null = null;
+
+function currentInstance(hook: string): HookInstance {
+  if (!current) {
+    throw new Error(`${hook} can only be called while rendering a withHooks component`);
+  }
+  return current;
+}
+
+// The slot for the hook being called, created by `init` on the first render
+function nextSlot<S extends Slot>(instance: HookInstance, kind: S['kind'], init: () => S): S {
+  const index = instance.index++;
+  let slot = instance.slots[index];
+  if (!slot) {
+    slot = init();
+    instance.slots[index] = slot;
+  } else if (slot.kind !== kind) {
+    throw new Error(`Hook ${index} was a ${slot.kind} hook and is now a ${kind} hook; call hooks in the same order on every render`);
+  }
+  return slot as S;
+}
+
+function depsChanged(prev: readonly unknown[] | undefined, next: readonly unknown[] | undefined): boolean {
+  if (!prev || !next || prev.length !== next.length) return true;
+  return next.some((dep, i) => !Object.is(dep, prev[i]));
+}
+
+function runEffects(instance: HookInstance): void {
+  const pending = instance.pending;
+  instance.pending = [];
+  pending.forEach(({ slot, effect }) => {
+    slot.cleanup?.();
+    const cleanup = effect();
+    slot.cleanup = typeof cleanup === 'function' ? cleanup : undefined;
+  });
+}
+
+function unmount(instance: HookInstance): void {
+  instance.removed = true;
+  instance.pending = [];
+  instance.slots.forEach(slot => {
+    if (slot.kind === 'effect' && slot.cleanup) {
+      const cleanup = slot.cleanup;
+      slot.cleanup = undefined;
+      cleanup();
+    }
+  });
+}
+
+/**
+ * Turn a render function into a component that can use hooks. Each mounted
+ * instance keeps its own hook state, effects run after the DOM is created
+ * or updated, and effect cleanups run when the component is removed.
+ *
+ *   export const Counter = withHooks(() => {
+ *     const [count, setCount] = useState(0);
+ *     return <button onclick={() => setCount(count + 1)}>{count}</button>;
+ *   });
+ */
+export function withHooks<Attrs = {}>(render: HookRender<Attrs>): m.ClosureComponent<Attrs> {
+  return () => {
+    const instance: HookInstance = { slots: [], index: 0, pending: [], removed: false };
+
+    return {
+      view: vnode => {
+        const previous = current;
+        current = instance;
+        instance.index = 0;
+        instance.pending = [];
+        try {
+          return render(vnode.attrs, vnode);
+        } finally {
+          current = previous;
+        }
+      },
+      oncreate: () => runEffects(instance),
+      onupdate: () => runEffects(instance),
+      onremove: () => unmount(instance)
+    };
+  };
+}
+
+/**
+ * Component-local state; setting a different value redraws
+ */
+export function useState<T>(initialValue: T | (() => T)): [T, SetState<T>] {
+  const instance = currentInstance('useState');
+  const slot = nextSlot<StateSlot>(instance, 'state', () => {
+    const created: StateSlot = {
+      kind: 'state',
+      value: typeof initialValue === 'function' ? (initialValue as () => T)() : initialValue,
+      set: value => {
+        const next = typeof value === 'function' ? (value as (prev: T) => T)(created.value) : value;
+        if (Object.is(next, created.value) || instance.removed) return;
+        created.value = next;
+        m.redraw();
+      }
+    };
+    return created;
+  });
+  return [slot.value, slot.set];
+}
+
+/**
+ * Run a side effect after render. With `deps` it only runs again when one
+ * of them changes; `[]` runs it once after the component is created. A
+ * returned function runs before the next run and when the component is removed.
+ */
+export function useEffect(effect: EffectCallback, deps?: readonly unknown[]): void {
+  const instance = currentInstance('useEffect');
+  let created = false;
+  const slot = nextSlot<EffectSlot>(instance, 'effect', () => {
+    created = true;
+    return { kind: 'effect', deps };
+  });
+
+  if (created || depsChanged(slot.deps, deps)) {
+    slot.deps = deps;
+    instance.pending.push({ slot, effect });
+  }
+}
+
+/**
+ * Cache the result of `factory` until one of `deps` changes
+ */
+export function useMemo<T>(factory: () => T, deps: readonly unknown[]): T {
+  const instance = currentInstance('useMemo');
+  const slot = nextSlot<MemoSlot>(instance, 'memo', () => ({ kind: 'memo', deps, value: factory() }));
+
+  if (depsChanged(slot.deps, deps)) {
+    slot.deps = deps;
+    slot.value = factory();
+  }
+  return slot.value;
+}
+
+/**
+ * Mutable box that keeps its identity for the life of the component.
+ * Changing `current` doesn't redraw.
+ */
+export function useRef<T>(initialValue: T): Ref<T> {
+  const instance = currentInstance('useRef');
+  return nextSlot<RefSlot>(instance, 'ref', () => ({ kind: 'ref', ref: { current: initialValue } })).ref;
+}
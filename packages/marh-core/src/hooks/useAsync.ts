@@ -1,76 +1,129 @@
 import m from 'mithril';
+import { useSuspense } from '../boundaries/suspense';
+import { runWithRetry, type RetryPolicy } from '../utils/retry';
+import { useEffect, useMemo, useRef, useState } from './runtime';
+
+/**
+ * - `idle`: not run yet
+ * - `aborted`: the last call was cancelled; `error` stays null
+ */
+export type AsyncStatus = 'idle' | 'loading' | 'success' | 'error' | 'aborted';
 
 export interface AsyncState<T> {
   data: T | null;
   loading: boolean;
   error: Error | null;
+  status: AsyncStatus;
 }
 
 export interface AsyncOptions {
+  /** Run when the component is created and when deps change (default: true) */
   immediate?: boolean;
+  /** Abort an attempt that takes longer than this, in ms; it fails with a `TimeoutError` */
+  timeout?: number;
+  /** Retries after a failure or timeout, with exponential backoff */
+  retry?: number | RetryPolicy;
+}
+
+export type AsyncFunction<T, Args extends unknown[] = []> = (signal: AbortSignal, ...args: Args) => Promise<T>;
+
+interface AsyncRunner<T, Args extends unknown[]> {
+  state: AsyncState<T>;
+  /** Start a call, aborting the one in flight; resolves to undefined when it fails or is aborted */
+  run: (...args: Args) => Promise<T | undefined>;
+  /** Abort the call in flight and set the status to `aborted` */
+  abort: () => void;
+}
+
+// Instance-scoped runner shared by useAsync and useAsyncCallback
+function useAsyncRunner<T, Args extends unknown[]>(
+  asyncFn: AsyncFunction<T, Args>,
+  options: AsyncOptions,
+  initial: AsyncState<T>
+): AsyncRunner<T, Args> {
+  const [state, setState] = useState(initial);
+  // Latest closure and options, so `run` keeps a stable identity
+  const latest = useRef({ asyncFn, options });
+  latest.current = { asyncFn, options };
+  const inFlight = useRef<AbortController | null>(null);
+
+  const run = useMemo(() => async (...args: Args): Promise<T | undefined> => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+    setState(prev => (prev.status === 'loading' ? prev : { ...prev, loading: true, error: null, status: 'loading' }));
+
+    const { asyncFn, options } = latest.current;
+    try {
+      const data = await runWithRetry(signal => asyncFn(signal, ...args), {
+        signal: controller.signal,
+        timeout: options.timeout,
+        retry: options.retry
+      });
+      if (controller.signal.aborted) return undefined;
+      inFlight.current = null;
+      setState({ data, loading: false, error: null, status: 'success' });
+      return data;
+    } catch (error) {
+      // Whoever aborted the call has already moved the state on
+      if (controller.signal.aborted) return undefined;
+      inFlight.current = null;
+      setState(prev => ({
+        data: prev.data,
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        status: 'error'
+      }));
+      return undefined;
+    }
+  }, []);
+
+  const abort = useMemo(() => () => {
+    const controller = inFlight.current;
+    if (!controller) return;
+    inFlight.current = null;
+    controller.abort();
+    setState(prev => ({ ...prev, loading: false, error: null, status: 'aborted' }));
+  }, []);
+
+  useEffect(() => () => inFlight.current?.abort(), []);
+
+  return { state, run, abort };
 }
 
 /**
- * useAsync hook for Mithril components
- * Note: This should be called within the component's oninit or view method
- * and the component should store the returned state on itself
+ * Run `asyncFn` when the component is created and again whenever one of
+ * `deps` changes. It receives an `AbortSignal` that's aborted when the
+ * call is replaced, times out, or the component is removed; aborted calls
+ * never update the state. Call it from a `withHooks` component.
+ *
+ *   const { data: user } = useAsync(signal => api.get(`/users/${id}`, { signal }), [id], { timeout: 5000, retry: 2 });
  */
 export function useAsync<T>(
-  asyncFn: () => Promise<T>,
-  deps: any[] = [],
+  asyncFn: AsyncFunction<T>,
+  deps: readonly unknown[] = [],
   options: AsyncOptions = {}
-): AsyncState<T> & { execute: () => Promise<void> } {
+): AsyncState<T> & { execute: () => Promise<T | undefined>; abort: () => void } {
   const { immediate = true } = options;
-  
-  // Create a unique key for this async operation
-  const key = `${asyncFn.toString()}_${JSON.stringify(deps)}`;
-  
-  // Get or create state for this operation
-  if (!globalAsyncStates.has(key)) {
-    globalAsyncStates.set(key, {
-      data: null,
-      loading: false,
-      error: null,
-      initialized: false
-    });
-  }
-  
-  const state = globalAsyncStates.get(key)!;
+  const { state, run, abort } = useAsyncRunner(asyncFn, options, {
+    data: null,
+    loading: immediate,
+    error: null,
+    status: immediate ? 'loading' : 'idle'
+  });
 
-  const execute = async (): Promise<void> => {
-    try {
-      state.loading = true;
-      state.error = null;
-      m.redraw();
-      
-      const result = await asyncFn();
-      state.data = result;
-      state.loading = false;
-      m.redraw();
-    } catch (error) {
-      state.error = error instanceof Error ? error : new Error(String(error));
-      state.loading = false;
-      m.redraw();
+  useEffect(() => {
+    if (immediate) {
+      run();
     }
-  };
+  }, deps);
 
-  // Execute immediately if requested and not already initialized
-  if (immediate && !state.initialized) {
-    state.initialized = true;
-    execute();
-  }
+  // Only the first load suspends; refetches keep showing the previous data
+  useSuspense(state.status === 'loading' && state.data === null);
 
-  return {
-    data: state.data,
-    loading: state.loading,
-    error: state.error,
-    execute
-  };
+  return { ...state, execute: run, abort };
 }
 
-// Global state store for async operations
-const globalAsyncStates = new Map<string, AsyncState<any> & { initialized: boolean }>();
-
 /**
  * Helper to create async state that's properly managed by component lifecycle
  */
@@ -85,7 +138,8 @@ const globalAsyncStates = new Map<string, AsyncState<any> & { initialized: boole
     component.asyncState = {
       data: null,
       loading: false,
-      error: null
+      error: null,
+      status: 'idle'
     };
   }
 
@@ -93,15 +147,18 @@ const globalAsyncStates = new Map<string, AsyncState<any> & { initialized: boole
     try {
       component.asyncState.loading = true;
       component.asyncState.error = null;
+      component.asyncState.status = 'loading';
       m.redraw();
       
       const result = await asyncFn();
       component.asyncState.data = result;
       component.asyncState.loading = false;
+      component.asyncState.status = 'success';
       m.redraw();
     } catch (error) {
       component.asyncState.error = error instanceof Error ? error : new Error(String(error));
       component.asyncState.loading = false;
+      component.asyncState.status = 'error';
       m.redraw();
     }
   };
@@ -112,31 +169,24 @@ const globalAsyncStates = new Map<string, AsyncState<any> & { initialized: boole
   };
 }
 
-export function useAsyncCallback<T, Args extends any[]>(
-  asyncFn: (...args: Args) => Promise<T>
-): [(...args: Args) => Promise<void>, AsyncState<T>] {
-  const state: AsyncState<T> = {
+/**
+ * Async function to call from event handlers, e.g. a form submit. It
+ * receives an `AbortSignal` first; calling again aborts the call in
+ * flight, as does removing the component. Call it from a `withHooks`
+ * component.
+ *
+ *   const [save, saving] = useAsyncCallback((signal, user: User) => api.put('/users', user, { signal }));
+ */
+export function useAsyncCallback<T, Args extends unknown[]>(
+  asyncFn: AsyncFunction<T, Args>,
+  options: Omit<AsyncOptions, 'immediate'> = {}
+): [(...args: Args) => Promise<T | undefined>, AsyncState<T> & { abort: () => void }] {
+  const { state, run, abort } = useAsyncRunner(asyncFn, options, {
     data: null,
     loading: false,
-    error: null
-  };
+    error: null,
+    status: 'idle'
+  });
 
-  const callback = async (...args: Args): Promise<void> => {
-    try {
-      state.loading = true;
-      state.error = null;
-      m.redraw();
-      
-      const result = await asyncFn(...args);
-      state.data = result;
-      state.loading = false;
-      m.redraw();
-    } catch (error) {
-      state.error = error instanceof Error ? error : new Error(String(error));
-      state.loading = false;
-      m.redraw();
-    }
-  };
-
-  return [callback, state];
-}
\ No newline at end of file
+  return [run, { ...state, abort }];
+}
@@ -0,0 +1,110 @@
+import { useSuspense } from '../boundaries/suspense';
+import {
+  getQueryClient,
+  type QueryClient,
+  type QueryFetcher,
+  type QueryKey,
+  type QueryCacheOptions,
+  type QueryState
+} from '../services/query-client';
+import { useEffect, useMemo, useRef, useState } from './runtime';
+import type { AsyncState } from './useAsync';
+
+export interface QueryResult<T> extends QueryState<T> {
+  /** True until the first fetch settles; stays false during background refetches */
+  loading: boolean;
+  /** Fetch again, even if the data is fresh */
+  refetch(): Promise<void>;
+}
+
+export interface MutationOptions<T, V> {
+  /**
+   * Update cached queries with `client.setQueryData` before the mutation
+   * runs. The changes are rolled back if it fails.
+   */
+  optimistic?: (variables: V, client: QueryClient) => void;
+  /** Queries to invalidate once the mutation settles */
+  invalidates?: QueryKey[];
+  onSuccess?: (data: T, variables: V) => void;
+  onError?: (error: Error, variables: V) => void;
+}
+
+export interface MutationResult<T, V> extends AsyncState<T> {
+  /** Run the mutation; resolves to undefined when it fails */
+  mutate(variables: V): Promise<T | undefined>;
+  reset(): void;
+}
+
+/**
+ * Read `key` from the shared query cache, fetching it with `fetcher` when
+ * it's missing or stale. Components using the same key share one request
+ * and one cached result. Call it from a `withHooks` component.
+ *
+ *   const { data: users, loading } = useQuery(['users'], () => api.get('/users'), { staleTime: 30_000 });
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options?: QueryCacheOptions): QueryResult<T> {
+  const client = getQueryClient();
+  const hash = JSON.stringify(key);
+  const state = client.watch(key, fetcher, options);
+
+  useEffect(() => client.observe(key), [client, hash]);
+  useSuspense(state.status === 'loading');
+
+  return {
+    ...state,
+    loading: state.status === 'loading',
+    refetch: () => client.refetch(key)
+  };
+}
+
+/**
+ * Run a change against the server, optionally updating cached queries
+ * up front and rolling them back when it fails. Call it from a `withHooks`
+ * component.
+ *
+ *   const saveUser = useMutation((user: User) => api.put(`/users/${user.id}`, user), {
+ *     optimistic: (user, client) => client.setQueryData(['users', user.id], user),
+ *     invalidates: [['users']]
+ *   });
+ */
+export function useMutation<T, V = void>(
+  mutation: (variables: V) => Promise<T>,
+  options: MutationOptions<T, V> = {}
+): MutationResult<T, V> {
+  const [state, setState] = useState<AsyncState<T>>({ data: null, loading: false, error: null, status: 'idle' });
+  // Latest mutation and options, so `mutate` keeps a stable identity
+  const latest = useRef({ mutation, options });
+  latest.current = { mutation, options };
+
+  const mutate = useMemo(() => async (variables: V): Promise<T | undefined> => {
+    const { mutation, options } = latest.current;
+    const client = getQueryClient();
+    setState(prev => ({ ...prev, loading: true, error: null, status: 'loading' }));
+
+    const update = options.optimistic
+      ? client.optimisticUpdate(() => options.optimistic!(variables, client))
+      : null;
+
+    let data: T;
+    try {
+      data = await mutation(variables);
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      update?.rollback();
+      setState({ data: null, loading: false, error: failure, status: 'error' });
+      options.onError?.(failure, variables);
+      return undefined;
+    } finally {
+      // Refetch what the mutation touched so the cache matches the server
+      [...(update?.keys ?? []), ...(options.invalidates ?? [])].forEach(key => client.invalidateQueries(key));
+    }
+
+    setState({ data, loading: false, error: null, status: 'success' });
+    options.onSuccess?.(data, variables);
+    return data;
+  }, []);
+
+  const reset = useMemo(() => () => setState({ data: null, loading: false, error: null, status: 'idle' }), []);
+
+  return { ...state, mutate, reset };
+}
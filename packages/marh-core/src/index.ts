@@ -19,15 +19,87 @@ export type {
 } from 'mithril';
 
 // Export all MARH modules
-export { Router } from './router';
+export { Router, RouteTransition, defineRoutes, lazy, queryParam } from './router';
+export type {
+  AfterNavigationHook,
+  BlockPredicate,
+  ConfirmNavigation,
+  LazyErrorAttrs,
+  LazyModule,
+  LazyOptions,
+  LoaderContext,
+  NavigationGuard,
+  NavigationGuardResult,
+  NavigationOptions,
+  QueryParam,
+  QuerySchema,
+  QueryValue,
+  QueryValues,
+  RouteLoader,
+  RouteLocation,
+  RouteMeta,
+  RouteResolver,
+  RouteDefinition,
+  RouteLinkAttrs,
+  RouteNode,
+  RouteTitle,
+  RouteTransitionAttrs,
+  RouteParams,
+  RouteParamValues,
+  RouteTable,
+  RoutePath,
+  SetQueryOptions,
+  TransitionOptions
+} from './router';
+export { withHooks, useState, useEffect, useMemo, useRef } from './hooks/runtime';
+export type { HookRender, SetState, EffectCallback, Ref } from './hooks/runtime';
 export { useAsync, useAsyncCallback, createAsyncState } from './hooks/useAsync';
+export type { AsyncState, AsyncStatus, AsyncOptions, AsyncFunction } from './hooks/useAsync';
+export type { RetryPolicy } from './utils/retry';
+export { useQuery, useMutation } from './hooks/useQuery';
+export { ErrorBoundary } from './boundaries/error-boundary';
+export type { ErrorBoundaryAttrs } from './boundaries/error-boundary';
+export { Suspense, useSuspense } from './boundaries/suspense';
+export type { SuspenseAttrs } from './boundaries/suspense';
+export type { QueryResult, MutationOptions, MutationResult } from './hooks/useQuery';
 export { IPC, TypedIPC } from './services/ipc';
 export * from './types';
 export * from './platform';
 export { getStorage, setStorage, resetStorage } from './services/storage.factory';
 export type { StorageService } from './services/storage';
+export {
+  Container,
+  createToken,
+  getContainer,
+  setContainer,
+  resetContainer,
+  register,
+  use
+} from './services/container';
+export type { Token, InjectionToken, Lifetime, Factory, RegisterOptions } from './services/container';
+export { QueryClient, getQueryClient, setQueryClient, invalidateQueries } from './services/query-client';
+export type {
+  QueryKey,
+  QueryFetcher,
+  QueryCacheOptions,
+  QueryState,
+  QueryStatus,
+  OptimisticUpdate
+} from './services/query-client';
 export { JsxUtils } from './utils/jsx-converter';
-export { Store, createStore } from './stores/base.store';
+export { Store, createStore, setStateFreezing } from './stores/base.store';
+export type { SimpleStore, CreateStoreOptions, StateUpdate, StoreUpdate } from './stores/base.store';
+export type { StatePath } from './stores/draft';
+export { persist } from './stores/persist';
+export type { PersistOptions, Persistence } from './stores/persist';
+export { createHistory } from './stores/history';
+export type { HistoryOptions, StoreHistory } from './stores/history';
+export { computed } from './stores/computed';
+export type { Computed } from './stores/computed';
+export { enableDevtools, forgetStore } from './stores/devtools';
+export type { Devtools, DevtoolsOptions } from './stores/devtools';
+export { sync } from './stores/sync';
+export type { StoreSync, SyncOptions } from './stores/sync';
 
 // JSX Runtime functions for react-jsx transform
 export function jsx(type: any, props: any, key?: any): m.Vnode {
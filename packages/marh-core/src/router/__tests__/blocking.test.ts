@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type Mithril from 'mithril';
+
+type RouterModule = typeof import('../index');
+
+// The router keeps its state in module scope, so every test loads a fresh copy
+let m: typeof Mithril;
+let Router: RouterModule['Router'];
+let root: HTMLElement;
+let unblocks: Array<() => void>;
+
+const page = (name: string): Mithril.Component => ({ view: () => m('p', name) });
+
+// Long enough for Mithril to resolve the route and redraw
+const settle = () => new Promise(resolve => setTimeout(resolve, 30));
+
+// Blocks are removed after each test so their window listeners don't leak into the next
+function block(...args: Parameters<RouterModule['Router']['block']>): () => void {
+  const unblock = Router.block(...args);
+  unblocks.push(unblock);
+  return unblock;
+}
+
+describe('navigation blocking', () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    window.scrollTo = vi.fn();
+    m = (await import('mithril')).default;
+    ({ Router } = await import('../index'));
+    root = document.createElement('div');
+    unblocks = [];
+
+    window.history.pushState(null, '', '/#!/form');
+    Router.route(root, '/', {
+      '/': page('home'),
+      '/form': page('form'),
+      '/about': page('about')
+    });
+    await settle();
+  });
+
+  afterEach(() => {
+    unblocks.forEach(unblock => unblock());
+    m.mount(root, null);
+  });
+
+  describe('Router.set', () => {
+    it('navigates once the user confirms, asking only once', async () => {
+      const confirm = vi.fn(() => true);
+      Router.setConfirm(confirm);
+      block(() => true, 'Discard changes?');
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('about');
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(confirm).toHaveBeenCalledWith('Discard changes?', '/about');
+    });
+
+    it('stays on the page when the user declines', async () => {
+      Router.setConfirm(() => false);
+      block(() => true, 'Discard changes?');
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('form');
+      expect(window.location.hash).toBe('#!/form');
+    });
+
+    it('waits for an async confirm', async () => {
+      let answer!: (confirmed: boolean) => void;
+      Router.setConfirm(() => new Promise<boolean>(resolve => {
+        answer = resolve;
+      }));
+      block(() => true, 'Discard changes?');
+
+      Router.set('/about');
+      await settle();
+      expect(root.textContent).toBe('form');
+
+      answer(true);
+      await settle();
+      expect(root.textContent).toBe('about');
+    });
+
+    it('treats a rejected confirm as declined', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      Router.setConfirm(() => Promise.reject(new Error('modal closed')));
+      block(() => true, 'Discard changes?');
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('form');
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+
+    it('only blocks targets the predicate matches', async () => {
+      const confirm = vi.fn(() => false);
+      Router.setConfirm(confirm);
+      block(to => to === '/', 'Discard changes?');
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('about');
+      expect(confirm).not.toHaveBeenCalled();
+    });
+
+    it('stops blocking once removed', async () => {
+      Router.setConfirm(() => false);
+      const unblock = block(() => true, 'Discard changes?');
+      unblock();
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('about');
+    });
+  });
+
+  describe('guard', () => {
+    it('asks before going back', async () => {
+      Router.set('/about');
+      await settle();
+      const confirm = vi.fn(() => false);
+      Router.setConfirm(confirm);
+      block(() => true, 'Discard changes?');
+
+      window.history.back();
+      await settle();
+
+      expect(confirm).toHaveBeenCalledWith('Discard changes?', '/form');
+      expect(root.textContent).toBe('about');
+    });
+
+    it('asks for navigations that bypass Router.set', async () => {
+      const confirm = vi.fn(() => false);
+      Router.setConfirm(confirm);
+      block(() => true, 'Discard changes?');
+
+      m.route.set('/about');
+      await settle();
+
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(root.textContent).toBe('form');
+    });
+
+    it('checks again after a confirmed navigation', async () => {
+      const confirm = vi.fn(() => true);
+      Router.setConfirm(confirm);
+      block(() => true, 'Discard changes?');
+      Router.set('/about');
+      await settle();
+
+      confirm.mockReturnValue(false);
+      m.route.set('/');
+      await settle();
+
+      expect(confirm).toHaveBeenCalledTimes(2);
+      expect(root.textContent).toBe('about');
+    });
+
+    it('does not carry a confirmation over to a different target', async () => {
+      const confirm = vi.fn(() => true);
+      Router.setConfirm(confirm);
+      block(() => true, 'Discard changes?');
+
+      Router.set('/about');
+      // Confirmed, but superseded before the route resolves
+      await new Promise(resolve => setTimeout(resolve));
+      m.route.set('/');
+      await settle();
+
+      expect(confirm).toHaveBeenCalledTimes(2);
+      expect(confirm).toHaveBeenLastCalledWith('Discard changes?', '/');
+    });
+  });
+
+  describe('Router.confirmLeave', () => {
+    it('resolves true without blockers', async () => {
+      await expect(Router.confirmLeave()).resolves.toBe(true);
+    });
+
+    it('asks every blocker that applies, in order, until one declines', async () => {
+      const confirm = vi.fn((message: string) => message !== 'second');
+      Router.setConfirm(confirm);
+      block(() => true, 'first');
+      block(() => false, 'skipped');
+      block(() => true, 'second');
+      block(() => true, 'third');
+
+      await expect(Router.confirmLeave()).resolves.toBe(false);
+      expect(confirm.mock.calls).toEqual([['first', null], ['second', null]]);
+    });
+
+    it('resolves false when the confirm hook throws', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      Router.setConfirm(() => {
+        throw new Error('no modal');
+      });
+      block(() => true, 'Discard changes?');
+
+      await expect(Router.confirmLeave()).resolves.toBe(false);
+      error.mockRestore();
+    });
+  });
+
+  describe('beforeunload', () => {
+    const unload = () => {
+      const event = new Event('beforeunload', { cancelable: true });
+      window.dispatchEvent(event);
+      return event;
+    };
+
+    it('prevents unloading while blocked', () => {
+      const unblock = block(to => to === null, 'Discard changes?');
+
+      expect(unload().defaultPrevented).toBe(true);
+
+      unblock();
+      expect(unload().defaultPrevented).toBe(false);
+    });
+  });
+});
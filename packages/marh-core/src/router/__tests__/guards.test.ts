@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type Mithril from 'mithril';
+import type { RouteDefinition } from '../types';
+
+type RouterModule = typeof import('../index');
+
+// The router keeps its state in module scope, so every test loads a fresh copy
+let m: typeof Mithril;
+let Router: RouterModule['Router'];
+let root: HTMLElement;
+
+const page = (name: string): Mithril.Component => ({ view: () => m('p', name) });
+
+// Long enough for Mithril to resolve the route and redraw
+const settle = () => new Promise(resolve => setTimeout(resolve, 30));
+
+async function mount(start: string, routes: Record<string, RouteDefinition>, defaultRoute = '/') {
+  window.history.pushState(null, '', start === '/' ? '/' : `/#!${start}`);
+  Router.route(root, defaultRoute, routes);
+  await settle();
+}
+
+describe('route guards', () => {
+  const routes = () => ({
+    '/': page('home'),
+    '/login': page('login'),
+    '/admin': page('admin'),
+    '/about': page('about')
+  });
+
+  beforeEach(async () => {
+    vi.resetModules();
+    window.scrollTo = vi.fn();
+    m = (await import('mithril')).default;
+    ({ Router } = await import('../index'));
+    root = document.createElement('div');
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+  });
+
+  describe('beforeEach', () => {
+    it('lets the navigation through when every guard allows it', async () => {
+      const guard = vi.fn(() => true);
+      Router.beforeEach(guard);
+      await mount('/', routes());
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('about');
+      expect(Router.current()?.path).toBe('/about');
+      expect(guard).toHaveBeenLastCalledWith(
+        expect.objectContaining({ path: '/about', route: '/about' }),
+        expect.objectContaining({ path: '/' })
+      );
+    });
+
+    it('waits for async guards', async () => {
+      let allow!: (result: boolean) => void;
+      await mount('/', routes());
+      Router.beforeEach(() => new Promise<boolean>(resolve => {
+        allow = resolve;
+      }));
+
+      Router.set('/about');
+      await settle();
+      expect(root.textContent).toBe('home');
+
+      allow(true);
+      await settle();
+      expect(root.textContent).toBe('about');
+    });
+
+    it('cancels the navigation when a guard returns false', async () => {
+      await mount('/', routes());
+      Router.beforeEach(to => to.path !== '/admin');
+
+      Router.set('/admin');
+      await settle();
+
+      expect(root.textContent).toBe('home');
+      expect(Router.current()?.path).toBe('/');
+      expect(window.location.hash).toBe('#!/');
+    });
+
+    it('redirects when a guard returns a path', async () => {
+      await mount('/', routes());
+      Router.beforeEach(to => (to.path === '/admin' ? '/login' : true));
+
+      Router.set('/admin');
+      await settle();
+
+      expect(root.textContent).toBe('login');
+      expect(Router.current()?.path).toBe('/login');
+    });
+
+    it('stops at the first guard that cancels', async () => {
+      const second = vi.fn(() => true);
+      await mount('/', routes());
+      Router.beforeEach(() => false);
+      Router.beforeEach(second);
+
+      Router.set('/about');
+      await settle();
+
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('passes route meta to guards', async () => {
+      const guard = vi.fn(() => true);
+      Router.beforeEach(guard);
+      await mount('/', { '/': page('home'), '/admin': { component: page('admin'), meta: { requiresAuth: true } } });
+
+      Router.set('/admin');
+      await settle();
+
+      expect(guard).toHaveBeenLastCalledWith(expect.objectContaining({ meta: { requiresAuth: true } }), expect.anything());
+    });
+
+    it('stops running once unregistered', async () => {
+      await mount('/', routes());
+      const remove = Router.beforeEach(() => false);
+      remove();
+
+      Router.set('/about');
+      await settle();
+
+      expect(root.textContent).toBe('about');
+    });
+  });
+
+  describe('afterEach', () => {
+    it('runs hooks in registration order once the guards passed', async () => {
+      const calls: string[] = [];
+      Router.beforeEach(to => {
+        calls.push(`guard ${to.path}`);
+        return true;
+      });
+      Router.afterEach((to, from) => calls.push(`first ${from?.path ?? null} -> ${to.path}`));
+      Router.afterEach(to => calls.push(`second ${to.path}`));
+      await mount('/', routes());
+
+      Router.set('/about');
+      await settle();
+
+      expect(calls).toEqual([
+        'guard /',
+        'first null -> /',
+        'second /',
+        'guard /about',
+        'first / -> /about',
+        'second /about'
+      ]);
+    });
+
+    it('skips hooks for cancelled navigations', async () => {
+      const hook = vi.fn();
+      await mount('/', routes());
+      Router.afterEach(hook);
+      Router.beforeEach(() => false);
+
+      Router.set('/about');
+      await settle();
+
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelling the first navigation', () => {
+    it('falls back to the default route', async () => {
+      Router.beforeEach(to => to.path !== '/admin');
+
+      await mount('/admin', routes());
+
+      expect(root.textContent).toBe('home');
+      expect(Router.current()?.path).toBe('/');
+    });
+
+    it('renders nothing when the default route itself is cancelled', async () => {
+      const hook = vi.fn();
+      Router.beforeEach(() => false);
+      Router.afterEach(hook);
+
+      await mount('/', routes());
+
+      expect(root.textContent).toBe('');
+      expect(Router.current()).toBeNull();
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('back and forward', () => {
+    it('keeps the history entry when going back is cancelled', async () => {
+      await mount('/', routes());
+      Router.set('/about');
+      await settle();
+      const guard = vi.fn(() => false);
+      Router.beforeEach(guard);
+      const length = window.history.length;
+
+      window.history.back();
+      await settle();
+
+      expect(root.textContent).toBe('about');
+      expect(window.location.hash).toBe('#!/about');
+      expect(window.history.length).toBe(length);
+      expect(guard).toHaveBeenCalledTimes(1);
+    });
+
+    it('goes back once the guard allows it', async () => {
+      let allow = false;
+      await mount('/login', routes());
+      Router.set('/about');
+      await settle();
+      Router.beforeEach(() => allow);
+
+      window.history.back();
+      await settle();
+      allow = true;
+      window.history.back();
+      await settle();
+
+      expect(root.textContent).toBe('login');
+      expect(Router.current()?.path).toBe('/login');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type Mithril from 'mithril';
+import type { LoaderContext } from '../types';
+
+type RouterModule = typeof import('../index');
+
+// The router keeps its state in module scope, so every test loads a fresh copy
+let m: typeof Mithril;
+let Router: RouterModule['Router'];
+let root: HTMLElement;
+
+// Long enough for Mithril to resolve the route and redraw
+const settle = () => new Promise(resolve => setTimeout(resolve, 30));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('route loaders', () => {
+  let loader: ReturnType<typeof vi.fn<[{ id: string }, LoaderContext], unknown>>;
+
+  const User: Mithril.Component = { view: () => m('p', `user ${Router.data() ?? 'none'}`) };
+
+  async function mount(options: { pending?: Mithril.Component } = {}) {
+    window.history.pushState(null, '', '/');
+    Router.route(root, '/', {
+      '/': { view: () => m('p', 'home') },
+      '/users/:id': { component: User, loader, ...options }
+    });
+    await settle();
+  }
+
+  beforeEach(async () => {
+    vi.resetModules();
+    window.scrollTo = vi.fn();
+    m = (await import('mithril')).default;
+    ({ Router } = await import('../index'));
+    root = document.createElement('div');
+    loader = vi.fn(async ({ id }) => id);
+  });
+
+  afterEach(() => {
+    m.mount(root, null);
+  });
+
+  it('runs the loader before rendering and exposes its data', async () => {
+    await mount();
+
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+
+    expect(root.textContent).toBe('user 1');
+    expect(Router.loaderState()).toMatchObject({ data: '1', status: 'success', loading: false });
+    expect(loader).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1' }),
+      expect.objectContaining({ signal: expect.any(AbortSignal), location: expect.objectContaining({ path: '/users/1' }) })
+    );
+  });
+
+  it('keeps the previous data until the next route commits', async () => {
+    await mount();
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+    const next = deferred<string>();
+    loader.mockReturnValueOnce(next.promise);
+
+    Router.set('/users/:id', { id: 2 });
+    await settle();
+
+    expect(Router.data()).toBe('1');
+    expect(root.textContent).toBe('user 1');
+
+    next.resolve('2');
+    await settle();
+
+    expect(Router.data()).toBe('2');
+    expect(root.textContent).toBe('user 2');
+  });
+
+  it('aborts a loader and drops its result once a newer navigation starts', async () => {
+    await mount();
+    const stale = deferred<string>();
+    const latest = deferred<string>();
+    loader.mockReturnValueOnce(stale.promise).mockReturnValueOnce(latest.promise);
+
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+    Router.set('/users/:id', { id: 2 });
+    await settle();
+    latest.resolve('2');
+    await settle();
+    stale.resolve('1');
+    await settle();
+
+    expect(loader.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(Router.data()).toBe('2');
+    expect(root.textContent).toBe('user 2');
+  });
+
+  it('aborts the current route\'s loader when leaving it', async () => {
+    await mount();
+    loader.mockReturnValueOnce(new Promise(() => {}));
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+
+    Router.set('/');
+    await settle();
+
+    expect(loader.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(Router.loaderState().status).toBe('idle');
+  });
+
+  it('renders the page with the error when the loader fails', async () => {
+    await mount();
+    loader.mockRejectedValueOnce(new Error('offline'));
+
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+
+    expect(root.textContent).toBe('user none');
+    expect(Router.loaderState()).toMatchObject({ status: 'error', error: new Error('offline') });
+  });
+
+  it('renders the pending component while the loader runs', async () => {
+    await mount({ pending: { view: () => m('p', 'loading') } });
+    const next = deferred<string>();
+    loader.mockReturnValueOnce(next.promise);
+
+    Router.set('/users/:id', { id: 1 });
+    await settle();
+    expect(root.textContent).toBe('loading');
+
+    next.resolve('1');
+    await settle();
+    expect(root.textContent).toBe('user 1');
+  });
+
+  describe('Router.prefetch', () => {
+    it('loads the data ahead so navigating there uses it', async () => {
+      await mount();
+
+      await Router.prefetch('/users/1?tab=posts');
+      expect(loader).toHaveBeenCalledWith(
+        { id: '1', tab: 'posts' },
+        expect.objectContaining({ location: expect.objectContaining({ route: '/users/:id' }) })
+      );
+
+      Router.navigate('/users/1?tab=posts');
+      await settle();
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(root.textContent).toBe('user 1');
+    });
+
+    it('shares a running prefetch of the same path', async () => {
+      await mount();
+
+      await Promise.all([Router.prefetch('/users/1'), Router.prefetch('/users/1')]);
+
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts when another path is prefetched', async () => {
+      await mount();
+      loader.mockReturnValueOnce(new Promise(() => {}));
+
+      Router.prefetch('/users/1');
+      await Router.prefetch('/users/2');
+
+      expect(loader.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(loader.mock.calls[1][1].signal.aborted).toBe(false);
+    });
+
+    it('aborts when navigating somewhere else', async () => {
+      await mount();
+      loader.mockReturnValueOnce(new Promise(() => {}));
+
+      Router.prefetch('/users/1');
+      await settle();
+      Router.set('/users/:id', { id: 2 });
+      await settle();
+
+      expect(loader.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(root.textContent).toBe('user 2');
+    });
+
+    it('resolves for paths without a route', async () => {
+      await mount();
+
+      await expect(Router.prefetch('/nowhere')).resolves.toBeUndefined();
+      expect(loader).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { isElectron } from '../platform';
+import { IPC } from '../services/ipc';
+import type { NavigationGuard } from './types';
+
+/**
+ * Returns true while navigating to `to` should be confirmed first.
+ * `to` is null when the window is being unloaded or closed.
+ */
+export type BlockPredicate = (to: string | null) => boolean;
+
+/**
+ * Asks the user whether to leave; resolve to true to continue navigating
+ */
+export type ConfirmNavigation = (message: string, to: string | null) => boolean | Promise<boolean>;
+
+interface Blocker {
+  when: BlockPredicate;
+  message: string;
+}
+
+const blockers: Blocker[] = [];
+
+// Channels shared with the desktop template's main process
+const IPC_BLOCK_CLOSE = 'window:block-close';
+const IPC_CONFIRM_CLOSE = 'window:confirm-close';
+const IPC_CLOSE = 'window:close';
+
+let confirmNavigation: ConfirmNavigation = (message) => window.confirm(message);
+// Target of a navigation already confirmed through `navigateWithConfirm`,
+// so the guard doesn't ask a second time
+let confirmedPath: string | null = null;
+
+function activeBlocker(to: string | null): Blocker | undefined {
+  return blockers.find(blocker => blocker.when(to));
+}
+
+function onBeforeUnload(event: BeforeUnloadEvent): void {
+  const blocker = activeBlocker(null);
+  if (!blocker) return;
+
+  event.preventDefault();
+  event.returnValue = blocker.message;
+}
+
+// Sent by the main process when a window with blockers is being closed
+function onConfirmClose(): void {
+  confirmLeave(null).then(confirmed => {
+    if (confirmed) {
+      IPC.invoke(IPC_CLOSE);
+    }
+  });
+}
+
+// Electron cancels a close blocked in `beforeunload` silently instead of
+// prompting, so there the main process holds the close and asks us instead
+function setBlocking(blocking: boolean): void {
+  if (isElectron()) {
+    if (blocking) {
+      IPC.on(IPC_CONFIRM_CLOSE, onConfirmClose);
+    } else {
+      IPC.removeListener(IPC_CONFIRM_CLOSE, onConfirmClose);
+    }
+    IPC.invoke(IPC_BLOCK_CLOSE, blocking);
+  } else if (blocking) {
+    window.addEventListener('beforeunload', onBeforeUnload);
+  } else {
+    window.removeEventListener('beforeunload', onBeforeUnload);
+  }
+}
+
+export function addBlocker(when: BlockPredicate, message: string): () => void {
+  const blocker: Blocker = { when, message };
+  blockers.push(blocker);
+  if (blockers.length === 1) {
+    setBlocking(true);
+  }
+
+  return () => {
+    const index = blockers.indexOf(blocker);
+    if (index === -1) return;
+    blockers.splice(index, 1);
+    if (blockers.length === 0) {
+      setBlocking(false);
+    }
+  };
+}
+
+export function setConfirmNavigation(confirm: ConfirmNavigation): void {
+  confirmNavigation = confirm;
+}
+
+export function isNavigationBlocked(to: string | null): boolean {
+  return activeBlocker(to) !== undefined;
+}
+
+/**
+ * Confirm leaving with every blocker that currently applies, in registration order.
+ * A confirm hook that throws or rejects counts as staying on the page.
+ */
+export async function confirmLeave(to: string | null): Promise<boolean> {
+  for (const blocker of [...blockers]) {
+    if (!blocker.when(to)) continue;
+    try {
+      if (!(await confirmNavigation(blocker.message, to))) {
+        return false;
+      }
+    } catch (error) {
+      console.error('Navigation confirm failed:', error);
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Run `navigate` once any blockers have been confirmed. Navigations that
+ * aren't blocked happen synchronously.
+ */
+export function navigateWithConfirm(to: string, navigate: () => void): void {
+  if (!isNavigationBlocked(to)) {
+    navigate();
+    return;
+  }
+
+  confirmLeave(to).then(confirmed => {
+    if (confirmed) {
+      confirmedPath = to;
+      navigate();
+    }
+  });
+}
+
+/**
+ * Guard for navigations that bypass `Router.set`, such as back/forward
+ * or a direct `m.route.set`
+ */
+export const blockingGuard: NavigationGuard = async (to, from) => {
+  // Only the navigation right after the confirmation may use it
+  const confirmed = confirmedPath;
+  confirmedPath = null;
+  if (confirmed === to.path || !from || from.path === to.path) {
+    return true;
+  }
+  return confirmLeave(to.path);
+};
@@ -0,0 +1,188 @@
+import m from 'mithril';
+import { isRouteResolver } from './tree';
+import { commitLoader, startLoader, withPending } from './loaders';
+import type {
+  AfterNavigationHook,
+  NavigationGuard,
+  RouteDefinition,
+  RouteLocation,
+  RouteResolver
+} from './types';
+
+const beforeGuards: NavigationGuard[] = [];
+const afterHooks: AfterNavigationHook[] = [];
+
+let currentLocation: RouteLocation | null = null;
+let navigationId = 0;
+
+/**
+ * How a navigation was started: a new history entry, a replaced one or back/forward
+ */
+export type NavigationType = 'push' | 'replace' | 'pop';
+
+// Noted until the next route starts resolving, which then takes them over
+let popRequested = false;
+let replaceRequested = false;
+let currentType: NavigationType = 'push';
+
+// Page the current location resolved to, and the path being put back after a cancelled navigation
+let currentComponent: unknown = null;
+let restoringPath: string | null = null;
+
+// popstate fires before Mithril resolves the route
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', () => {
+    popRequested = true;
+  });
+}
+
+// Returned from onmatch to leave Mithril waiting while we navigate elsewhere
+const waitForever = (): Promise<never> => new Promise(() => {});
+
+// Rendered when the first navigation is cancelled and there's no other page to show
+const EmptyPage: m.Component = { view: () => null };
+
+function register<T>(list: T[], entry: T): () => void {
+  list.push(entry);
+  return () => {
+    const index = list.indexOf(entry);
+    if (index !== -1) {
+      list.splice(index, 1);
+    }
+  };
+}
+
+export function addBeforeGuard(guard: NavigationGuard): () => void {
+  return register(beforeGuards, guard);
+}
+
+export function addAfterHook(hook: AfterNavigationHook): () => void {
+  return register(afterHooks, hook);
+}
+
+export function getCurrentLocation(): RouteLocation | null {
+  return currentLocation;
+}
+
+/**
+ * Call right before navigating with `replace: true`
+ */
+export function markReplaceNavigation(): void {
+  replaceRequested = true;
+}
+
+/**
+ * How the current location was navigated to
+ */
+export function getNavigationType(): NavigationType {
+  return currentType;
+}
+
+async function runGuards(
+  to: RouteLocation,
+  from: RouteLocation | null
+): Promise<boolean | string> {
+  for (const guard of [...beforeGuards]) {
+    const result = await guard(to, from);
+    if (result === false || typeof result === 'string') {
+      return result;
+    }
+  }
+  return true;
+}
+
+/**
+ * Put the URL back to `from` after a cancelled navigation. Mithril resolves
+ * it again, but `onmatch` hands back the page as it is rather than running
+ * guards, loader and after hooks a second time.
+ */
+function restoreLocation(from: RouteLocation, type: NavigationType): void {
+  // Back/forward already moved through history, so add the page again
+  // instead of overwriting the entry the browser landed on
+  if (type === 'pop') {
+    window.history.pushState(null, '', m.route.prefix + from.path);
+  }
+  restoringPath = from.path;
+  m.route.set(from.path, null, { replace: true });
+}
+
+function pathname(path: string): string {
+  return m.parsePathname(path).path || '/';
+}
+
+/**
+ * Wrap a route definition in a resolver that runs the registered guards,
+ * then the route's loader alongside the original component or `onmatch`.
+ * When the first navigation is cancelled there's no page to return to, so
+ * it goes to `defaultRoute` instead, or renders nothing if that was the one
+ * cancelled.
+ */
+export function guardRoute(definition: RouteDefinition, defaultRoute: string): RouteResolver {
+  const resolver = isRouteResolver(definition) ? definition : null;
+  const meta = resolver?.meta ?? {};
+
+  return {
+    ...resolver,
+    meta,
+    onmatch: async (args, requestedPath, route) => {
+      const id = ++navigationId;
+      const type: NavigationType = popRequested ? 'pop' : replaceRequested ? 'replace' : 'push';
+      popRequested = false;
+      replaceRequested = false;
+      const from = currentLocation;
+      const to: RouteLocation = { path: requestedPath || '/', route, params: { ...args }, meta };
+
+      if (restoringPath !== null && restoringPath === to.path) {
+        restoringPath = null;
+        return currentComponent;
+      }
+
+      const result = await runGuards(to, from);
+      if (id !== navigationId) {
+        return waitForever();
+      }
+
+      if (typeof result === 'string') {
+        m.route.set(result, null, { replace: true });
+        return waitForever();
+      }
+
+      if (result === false) {
+        if (!from) {
+          if (pathname(to.path) === pathname(defaultRoute)) {
+            return EmptyPage;
+          }
+          m.route.set(defaultRoute, null, { replace: true });
+        } else {
+          restoreLocation(from, type);
+        }
+        return waitForever();
+      }
+
+      const loading = startLoader(resolver?.loader, to);
+      let component = !resolver
+        ? definition
+        : resolver.onmatch
+          ? await resolver.onmatch.call(resolver, args, requestedPath, route)
+          : resolver.component;
+      if (component && component !== m.route.SKIP && resolver?.pending) {
+        component = withPending(component, resolver.pending);
+      } else {
+        await loading;
+      }
+      if (id !== navigationId || component === m.route.SKIP) {
+        return component;
+      }
+
+      currentLocation = to;
+      currentComponent = component;
+      commitLoader(to);
+      currentType = type;
+      [...afterHooks].forEach(hook => hook(to, from));
+      return component;
+    },
+    render: resolver?.render
+      ? (vnode) => resolver.render!.call(resolver, vnode)
+      : undefined
+  };
+}
@@ -0,0 +1,311 @@
+import m from 'mithril';
+import { flattenRoutes, matchRoute } from './tree';
+import { readQuery, writeQuery } from './query';
+import type { QuerySchema, QueryValues, SetQueryOptions } from './query';
+import { addAfterHook, addBeforeGuard, getCurrentLocation, guardRoute, markReplaceNavigation } from './guards';
+import { setupNavigation, withNavigationEffects } from './navigation';
+import { buildNamedPath, registerRouteNames } from './names';
+import { getLoaderState, preloadLoader } from './loaders';
+import type { AsyncState } from '../hooks/useAsync';
+import {
+  addBlocker,
+  blockingGuard,
+  confirmLeave,
+  isNavigationBlocked,
+  navigateWithConfirm,
+  setConfirmNavigation
+} from './blocking';
+import type { BlockPredicate, ConfirmNavigation } from './blocking';
+import type { NavigationOptions } from './navigation';
+import type { RouteConfig } from '../types';
+import type {
+  AfterNavigationHook,
+  NavigationGuard,
+  ParamArgs,
+  RouteDefinition,
+  RouteLocation,
+  RouteNode,
+  RouteParams,
+  RouteResolver,
+  RouteTable
+} from './types';
+
+export { lazy } from './lazy';
+export { queryParam } from './query';
+export { RouteTransition } from './transition';
+export type { RouteTransitionAttrs, TransitionOptions } from './transition';
+export type { QueryParam, QuerySchema, QueryValue, QueryValues, SetQueryOptions } from './query';
+export type { LazyErrorAttrs, LazyModule, LazyOptions } from './lazy';
+export type { NavigationOptions } from './navigation';
+export type { BlockPredicate, ConfirmNavigation } from './blocking';
+export type {
+  AfterNavigationHook,
+  LoaderContext,
+  NavigationGuard,
+  NavigationGuardResult,
+  RouteLoader,
+  RouteLocation,
+  RouteMeta,
+  RouteOptions,
+  RouteResolver,
+  RouteDefinition,
+  RouteNode,
+  RouteTitle,
+  RouteParams,
+  RouteParamValues,
+  RouteTable,
+  RoutePath
+} from './types';
+
+/**
+ * Declare a route table with params inferred from each path template
+ */
+export function defineRoutes<Routes extends RouteTable<Routes>>(routes: Routes): Routes {
+  return routes;
+}
+
+export interface RouteLinkAttrs extends m.RouteLinkAttrs {
+  /** Prefetch the target route on hover or focus (default: true) */
+  prefetch?: boolean;
+}
+
+// Route table as mounted, used to look up routes for prefetching
+let mountedRoutes: Record<string, RouteResolver> = {};
+
+addBeforeGuard(blockingGuard);
+
+function setRoute(path: string, data?: Record<string, any> | null, options?: m.RouteOptions): void {
+  if (options?.replace) {
+    markReplaceNavigation();
+  }
+  m.route.set(path, data, options);
+}
+
+/**
+ * `m.route.Link` that prefetches its route when hovered or focused
+ */
+const RouteLink: m.Component<RouteLinkAttrs> = {
+  view: ({ attrs, children }) => {
+    const { prefetch = true, onclick, onmouseenter, onfocus, ...linkAttrs } = attrs;
+    const warm = () => {
+      if (prefetch) {
+        Router.prefetch(attrs.href);
+      }
+    };
+
+    return m(m.route.Link, {
+      ...linkAttrs,
+      onclick: (event: MouseEvent) => {
+        const result = onclick?.(event);
+        // Confirm before the URL changes rather than undoing it afterwards
+        if (result !== false && !event.defaultPrevented && isNavigationBlocked(attrs.href)) {
+          event.preventDefault();
+          navigateWithConfirm(attrs.href, () => setRoute(attrs.href, null, attrs.options));
+        }
+        return result;
+      },
+      onmouseenter: (event: MouseEvent) => {
+        warm();
+        onmouseenter?.(event);
+      },
+      onfocus: (event: FocusEvent) => {
+        warm();
+        onfocus?.(event);
+      }
+    }, children);
+  }
+};
+
+export class Router {
+  static Link = RouteLink;
+
+  /**
+   * Mount the router with a flat route table, a nested route tree or
+   * `AppConfig.routes`
+   */
+  static route<Routes extends RouteTable<Routes>>(
+    element: Element,
+    defaultRoute: string,
+    routes: Routes,
+    options?: NavigationOptions
+  ): void;
+  static route(
+    element: Element,
+    defaultRoute: string,
+    routes: Array<RouteNode | RouteConfig>,
+    options?: NavigationOptions
+  ): void;
+  static route(
+    element: Element,
+    defaultRoute: string,
+    routes: Record<string, any> | RouteNode[],
+    options?: NavigationOptions
+  ): void {
+    const table: Record<string, RouteDefinition> = Array.isArray(routes)
+      ? flattenRoutes(routes)
+      : routes;
+    const guarded: Record<string, RouteResolver> = {};
+    Object.entries(table).forEach(([path, definition]) => {
+      guarded[path] = withNavigationEffects(guardRoute(definition, defaultRoute));
+    });
+    mountedRoutes = guarded;
+    registerRouteNames(guarded);
+    setupNavigation(guarded, options);
+    m.route(element, defaultRoute, guarded);
+  }
+
+  /**
+   * Load the route matching `path` ahead of navigation: its lazy component
+   * and its loader's data, which the next navigation to `path` then uses.
+   * Prefetching another path aborts the loader. Never rejects.
+   */
+  static prefetch(path: string): Promise<void> {
+    for (const [template, resolver] of Object.entries(mountedRoutes)) {
+      const params = matchRoute(template, path);
+      if (!params) continue;
+
+      const { prefetch, loader, meta = {} } = resolver;
+      return Promise.all([
+        prefetch?.(),
+        loader && preloadLoader(loader, { path, route: template, params, meta })
+      ]).then(() => undefined);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Register a guard that runs before every navigation.
+   * Returns a function that unregisters the guard.
+   */
+  static beforeEach(guard: NavigationGuard): () => void {
+    return addBeforeGuard(guard);
+  }
+
+  /**
+   * Register a hook that runs after every successful navigation.
+   * Returns a function that unregisters the hook.
+   */
+  static afterEach(hook: AfterNavigationHook): () => void {
+    return addAfterHook(hook);
+  }
+
+  /**
+   * The last route that passed all guards, or null before the first navigation
+   */
+  static current(): RouteLocation | null {
+    return getCurrentLocation();
+  }
+
+  static set<P extends string>(
+    route: P,
+    ...args: ParamArgs<P, [options?: m.RouteOptions]>
+  ): void {
+    const [data, options] = args;
+    navigateWithConfirm(m.buildPathname(route, data ?? {}), () => setRoute(route, data, options));
+  }
+
+  static get(): string {
+    return m.route.get();
+  }
+
+  static param(key: string): string | undefined {
+    return m.route.param(key);
+  }
+
+  /**
+   * Get all params of the current route, typed by its template
+   */
+  static params<P extends string = string>(): RouteParams<P> {
+    return (m.route.param() ?? {}) as RouteParams<P>;
+  }
+
+  /**
+   * Data returned by the current route's loader
+   */
+  static data<T = any>(): T | null {
+    return getLoaderState<T>().data;
+  }
+
+  /**
+   * Loading and error status of the current route's loader
+   */
+  static loaderState<T = any>(): AsyncState<T> {
+    return getLoaderState<T>();
+  }
+
+  /**
+   * Interpolate params into a route template.
+   * Params that don't appear in the template are appended as a query string.
+   */
+  static buildPath<P extends string>(template: P, ...args: ParamArgs<P>): string {
+    const [params] = args;
+    return m.buildPathname(template, params ?? {});
+  }
+
+  /**
+   * Read the current query string, either raw or parsed through a schema
+   */
+  static query(): Record<string, any>;
+  static query<S extends QuerySchema>(schema: S): QueryValues<S>;
+  static query(schema?: QuerySchema): Record<string, any> {
+    return schema ? readQuery(schema) : readQuery();
+  }
+
+  /**
+   * Update query parameters of the current route, keeping the path.
+   * `undefined`, `null` and empty values remove the parameter.
+   */
+  static setQuery<S extends QuerySchema>(
+    values: Partial<QueryValues<S>>,
+    options: SetQueryOptions<S> & { schema: S }
+  ): void;
+  static setQuery(values: Record<string, any>, options?: SetQueryOptions & { schema?: undefined }): void;
+  static setQuery(values: Record<string, any>, options?: SetQueryOptions): void {
+    writeQuery(values, options);
+  }
+
+  static navigate(path: string): void {
+    navigateWithConfirm(path, () => m.route.set(path));
+  }
+
+  /**
+   * Build the path of a named route.
+   * Throws if the name is unknown or a required param is missing.
+   */
+  static url(name: string, params?: Record<string, string | number>): string {
+    return buildNamedPath(name, params);
+  }
+
+  /**
+   * Navigate to a named route
+   */
+  static go(name: string, params?: Record<string, string | number>, options?: m.RouteOptions): void {
+    const path = buildNamedPath(name, params);
+    navigateWithConfirm(path, () => setRoute(path, null, options));
+  }
+
+  /**
+   * Ask for confirmation before leaving while `when` returns true, e.g. while
+   * a form has unsaved changes. Applies to `Router.set`/`navigate`, links,
+   * back/forward and closing or reloading the window (in Electron only
+   * closing, which the main process has to hand over).
+   * Returns a function that removes the block.
+   */
+  static block(when: BlockPredicate | (() => boolean), message: string): () => void {
+    return addBlocker(when, message);
+  }
+
+  /**
+   * Replace `window.confirm` with an app-provided (possibly async) prompt
+   */
+  static setConfirm(confirm: ConfirmNavigation): void {
+    setConfirmNavigation(confirm);
+  }
+
+  /**
+   * Run the active blockers for leaving the current page altogether
+   */
+  static confirmLeave(): Promise<boolean> {
+    return confirmLeave(null);
+  }
+}
@@ -0,0 +1,134 @@
+import m from 'mithril';
+import type { RouteResolver } from './types';
+
+export interface LazyErrorAttrs {
+  error: Error;
+  retry: () => void;
+}
+
+export interface LazyOptions {
+  /** Rendered while the route's module is loading */
+  pending?: m.ComponentTypes<any>;
+  /** Rendered when the module fails to load, e.g. a stale chunk after a deploy */
+  error?: m.ComponentTypes<LazyErrorAttrs>;
+  /** Named export to use when the module has no default export */
+  exportName?: string;
+}
+
+export type LazyModule = m.ComponentTypes<any> | Record<string, any>;
+
+const DefaultLazyError: m.Component<LazyErrorAttrs> = {
+  view: ({ attrs }) =>
+    m('div', { role: 'alert' }, [
+      m('p', `Failed to load page: ${attrs.error.message}`),
+      m('button', { type: 'button', onclick: attrs.retry }, 'Retry')
+    ])
+};
+
+function isComponent(value: any): value is m.ComponentTypes<any> {
+  return typeof value === 'function' || (value !== null && typeof value?.view === 'function');
+}
+
+function resolveComponent(module: LazyModule, exportName?: string): m.ComponentTypes<any> {
+  const mod = module as Record<string, any>;
+
+  if (exportName) {
+    if (!isComponent(mod[exportName])) {
+      throw new Error(`lazy: module has no component export named "${exportName}"`);
+    }
+    return mod[exportName];
+  }
+
+  if (isComponent(mod.default)) {
+    return mod.default;
+  }
+
+  if (isComponent(module)) {
+    return module;
+  }
+
+  const exported = Object.values(mod).filter(isComponent);
+  if (exported.length === 1) {
+    return exported[0];
+  }
+
+  throw new Error('lazy: could not determine which export to render, pass `exportName`');
+}
+
+/**
+ * Route resolver that loads its component on first match.
+ *
+ * The resolved component is cached, so later visits render synchronously.
+ * While loading, `pending` is rendered in place of the page; if loading fails,
+ * `error` is rendered with a `retry` callback.
+ *
+ * Usage:
+ *   '/users': lazy(() => import('./pages/Users'), { pending: Spinner })
+ */
+export function lazy<Params = any>(
+  loader: () => Promise<LazyModule>,
+  options: LazyOptions = {}
+): RouteResolver<Params> {
+  const { pending, error: ErrorComponent = DefaultLazyError, exportName } = options;
+
+  let component: m.ComponentTypes<any> | null = null;
+  let loading: Promise<m.ComponentTypes<any>> | null = null;
+  let error: Error | null = null;
+
+  const load = (): Promise<m.ComponentTypes<any>> => {
+    if (component) {
+      return Promise.resolve(component);
+    }
+
+    if (!loading) {
+      error = null;
+      loading = loader()
+        .then(module => {
+          component = resolveComponent(module, exportName);
+          return component;
+        })
+        .catch(err => {
+          error = err instanceof Error ? err : new Error(String(err));
+          throw error;
+        })
+        .finally(() => {
+          loading = null;
+          m.redraw();
+        });
+    }
+
+    return loading;
+  };
+
+  const retry = (): void => {
+    load().catch(() => {});
+    m.redraw();
+  };
+
+  // Stands in for the page until the module has settled
+  const LazyRoute: m.Component<any> = {
+    view: ({ attrs }) => {
+      if (component) {
+        return m(component, attrs);
+      }
+      if (error) {
+        return m(ErrorComponent, { error, retry });
+      }
+      return pending ? m(pending, attrs) : null;
+    }
+  };
+
+  return {
+    onmatch: () => {
+      if (component) {
+        return component;
+      }
+      load().catch(() => {});
+      return LazyRoute;
+    },
+    prefetch: () => load().then(
+      () => undefined,
+      () => undefined
+    )
+  };
+}
@@ -0,0 +1,137 @@
+import m from 'mithril';
+import type { AsyncState } from '../hooks/useAsync';
+import type { RouteLoader, RouteLocation } from './types';
+
+interface LoaderRun {
+  location: RouteLocation;
+  controller: AbortController;
+  state: AsyncState<any>;
+  /** Settles once the loader has finished; never rejects */
+  done: Promise<void>;
+}
+
+// Run of the route on screen, and of the route being navigated to
+let currentRun: LoaderRun | null = null;
+let nextRun: LoaderRun | null = null;
+// Run started by `Router.prefetch`, taken over by the next navigation to its path
+let preloadRun: LoaderRun | null = null;
+
+const idleState: AsyncState<any> = { data: null, loading: false, error: null, status: 'idle' };
+
+// Components wrapped to show a pending view, cached so redraws diff instead of re-mounting
+const pendingWrappers = new WeakMap<object, Map<m.ComponentTypes<any>, m.Component<any>>>();
+
+function runLoader(loader: RouteLoader, to: RouteLocation): LoaderRun {
+  const controller = new AbortController();
+  const run: LoaderRun = {
+    location: to,
+    controller,
+    state: { data: null, loading: true, error: null, status: 'loading' },
+    done: Promise.resolve()
+      .then(() => loader(to.params, { signal: controller.signal, location: to }))
+      .then(
+        data => {
+          run.state = { data, loading: false, error: null, status: 'success' };
+        },
+        error => {
+          run.state = controller.signal.aborted
+            ? { data: null, loading: false, error: null, status: 'aborted' }
+            : {
+                data: null,
+                loading: false,
+                error: error instanceof Error ? error : new Error(String(error)),
+                status: 'error'
+              };
+        }
+      )
+      .finally(() => {
+        if (run === currentRun && !controller.signal.aborted) {
+          m.redraw();
+        }
+      })
+  };
+  return run;
+}
+
+/**
+ * Start the loader for a route, aborting the one still running for an
+ * earlier navigation. A preload of the same path is taken over instead of
+ * loading again. The current route keeps its data until `commitLoader`.
+ *
+ * The returned promise never rejects; failures end up in the loader state.
+ */
+export function startLoader(loader: RouteLoader | undefined, to: RouteLocation): Promise<void> {
+  nextRun?.controller.abort();
+  nextRun = null;
+  const preloaded = preloadRun;
+  preloadRun = null;
+
+  if (!loader) {
+    preloaded?.controller.abort();
+    return Promise.resolve();
+  }
+
+  if (preloaded && preloaded.location.path === to.path && preloaded.state.status !== 'error') {
+    preloaded.location = to;
+    nextRun = preloaded;
+  } else {
+    preloaded?.controller.abort();
+    nextRun = runLoader(loader, to);
+  }
+  return nextRun.done;
+}
+
+/**
+ * Run a route's loader ahead of navigating to it. Preloading another path,
+ * or navigating anywhere else, aborts it.
+ */
+export function preloadLoader(loader: RouteLoader, to: RouteLocation): Promise<void> {
+  if (preloadRun?.location.path === to.path) {
+    return preloadRun.done;
+  }
+  preloadRun?.controller.abort();
+  preloadRun = runLoader(loader, to);
+  return preloadRun.done;
+}
+
+/**
+ * Expose the loader state of `to` once it's the current route. Routes
+ * without a loader are idle.
+ */
+export function commitLoader(to: RouteLocation): void {
+  const run = nextRun?.location === to ? nextRun : null;
+  if (run) {
+    nextRun = null;
+  }
+  if (currentRun !== run) {
+    currentRun?.controller.abort();
+    currentRun = run;
+  }
+}
+
+export function getLoaderState<T>(): AsyncState<T> {
+  return currentRun ? currentRun.state : idleState;
+}
+
+/**
+ * Render `pending` in place of `component` while the current loader runs
+ */
+export function withPending(
+  component: m.ComponentTypes<any>,
+  pending: m.ComponentTypes<any>
+): m.Component<any> {
+  let byPending = pendingWrappers.get(component as object);
+  if (!byPending) {
+    byPending = new Map();
+    pendingWrappers.set(component as object, byPending);
+  }
+
+  let wrapper = byPending.get(pending);
+  if (!wrapper) {
+    wrapper = {
+      view: ({ attrs }) => (getLoaderState().loading ? m(pending, attrs) : m(component, attrs))
+    };
+    byPending.set(pending, wrapper);
+  }
+  return wrapper;
+}
@@ -0,0 +1,47 @@
+import m from 'mithril';
+import type { RouteResolver } from './types';
+
+// Route name -> route template
+const namedRoutes = new Map<string, string>();
+
+const PARAM_PATTERN = /:([^/.-]+)(\.{3})?/g;
+
+export function registerRouteNames(routes: Record<string, RouteResolver>): void {
+  namedRoutes.clear();
+  Object.entries(routes).forEach(([template, resolver]) => {
+    if (!resolver.name) return;
+    const existing = namedRoutes.get(resolver.name);
+    if (existing !== undefined) {
+      throw new Error(
+        `Router: route name "${resolver.name}" is used by both "${existing}" and "${template}"`
+      );
+    }
+    namedRoutes.set(resolver.name, template);
+  });
+}
+
+/**
+ * Build the path of a named route, checking that every param in its template is provided
+ */
+export function buildNamedPath(name: string, params: Record<string, any> = {}): string {
+  const template = namedRoutes.get(name);
+  if (template === undefined) {
+    const known = Array.from(namedRoutes.keys());
+    throw new Error(
+      `Router: unknown route name "${name}". ` +
+      (known.length > 0 ? `Known names: ${known.join(', ')}` : 'No named routes are registered')
+    );
+  }
+
+  const missing = Array.from(template.matchAll(PARAM_PATTERN))
+    .map(([, param]) => param)
+    .filter(param => params[param] === undefined || params[param] === null || params[param] === '');
+  if (missing.length > 0) {
+    throw new Error(
+      `Router: route "${name}" (${template}) is missing required param${missing.length > 1 ? 's' : ''} ` +
+      missing.map(param => `"${param}"`).join(', ')
+    );
+  }
+
+  return m.buildPathname(template, params);
+}
@@ -0,0 +1,167 @@
+import m from 'mithril';
+import { addAfterHook, getNavigationType } from './guards';
+import type { RouteLocation, RouteResolver } from './types';
+
+export interface NavigationOptions {
+  /** Title used for routes without one, e.g. `AppConfig.title` */
+  title?: string;
+  /** Format route titles, e.g. `title => \`${title} · My App\`` */
+  titleTemplate?: (title: string) => string;
+  /** Restore scroll on back/forward and reset it on other navigations (default: true) */
+  scroll?: boolean;
+  /** Element focused after navigation for screen readers, or false to disable (default: 'main') */
+  focus?: string | false;
+}
+
+interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+const scrollPositions = new Map<string, ScrollPosition>();
+
+// Original content of meta tags touched by the router; null if the router created the tag
+const originalMetaTags = new Map<string, string | null>();
+
+let teardown: (() => void) | null = null;
+let pendingEffects: (() => void) | null = null;
+// Title of the page before the router changed it, for routes without one
+let initialTitle: string | null = null;
+
+function metaTag(name: string): HTMLMetaElement | null {
+  return document.head.querySelector(`meta[name="${name.replace(/"/g, '\\"')}"]`);
+}
+
+function applyMetaTags(tags: Record<string, string> = {}): void {
+  originalMetaTags.forEach((original, name) => {
+    if (name in tags) return;
+    const tag = metaTag(name);
+    if (original === null) {
+      tag?.remove();
+    } else {
+      tag?.setAttribute('content', original);
+    }
+    originalMetaTags.delete(name);
+  });
+
+  Object.entries(tags).forEach(([name, content]) => {
+    let tag = metaTag(name);
+    if (!originalMetaTags.has(name)) {
+      originalMetaTags.set(name, tag ? tag.getAttribute('content') : null);
+    }
+    if (!tag) {
+      tag = document.createElement('meta');
+      tag.setAttribute('name', name);
+      document.head.appendChild(tag);
+    }
+    tag.setAttribute('content', content);
+  });
+}
+
+function applyTitle(route: RouteResolver | undefined, to: RouteLocation, options: NavigationOptions): void {
+  const title = typeof route?.title === 'function' ? route.title(to) : route?.title;
+  if (title !== undefined) {
+    document.title = options.titleTemplate ? options.titleTemplate(title) : title;
+  } else {
+    document.title = options.title ?? initialTitle ?? '';
+  }
+}
+
+function hash(path: string): string {
+  const index = path.indexOf('#');
+  return index === -1 ? '' : path.slice(index);
+}
+
+// Same path, params and hash; at most the query string differs
+function samePage(a: string, b: string): boolean {
+  return m.parsePathname(a).path === m.parsePathname(b).path && hash(a) === hash(b);
+}
+
+function hashTarget(path: string): HTMLElement | null {
+  const index = path.indexOf('#');
+  if (index === -1) return null;
+  const id = decodeURIComponent(path.slice(index + 1));
+  return id ? document.getElementById(id) : null;
+}
+
+function focusLandmark(selector: string): void {
+  const landmark = document.querySelector<HTMLElement>(selector);
+  if (!landmark) return;
+  if (!landmark.hasAttribute('tabindex')) {
+    landmark.setAttribute('tabindex', '-1');
+  }
+  landmark.focus({ preventScroll: true });
+}
+
+/**
+ * Keep document title, meta tags, scroll position and focus in step with
+ * navigation. Calling it again replaces the previous setup.
+ */
+export function setupNavigation(
+  routes: Record<string, RouteResolver>,
+  options: NavigationOptions = {}
+): void {
+  const { scroll = true, focus = 'main' } = options;
+
+  teardown?.();
+  if (initialTitle === null) {
+    initialTitle = document.title;
+  }
+
+  if (scroll && 'scrollRestoration' in history) {
+    history.scrollRestoration = 'manual';
+  }
+
+  const removeHook = addAfterHook((to, from) => {
+    const type = getNavigationType();
+
+    applyTitle(routes[to.route], to, options);
+    applyMetaTags(routes[to.route]?.metaTags);
+
+    // The previous page is still rendered at this point
+    if (from) {
+      scrollPositions.set(from.path, { x: window.scrollX, y: window.scrollY });
+    }
+
+    // Leave the user where they are when only the query changed, e.g. a search box bound to the URL
+    if (type === 'replace' || (from && samePage(from.path, to.path))) {
+      return;
+    }
+
+    pendingEffects = () => {
+      if (scroll) {
+        const saved = type === 'pop' ? scrollPositions.get(to.path) : undefined;
+        const target = saved ? null : hashTarget(to.path);
+        if (target) {
+          target.scrollIntoView();
+        } else {
+          window.scrollTo(saved?.x ?? 0, saved?.y ?? 0);
+        }
+      }
+      if (focus && from) {
+        focusLandmark(focus);
+      }
+    };
+  });
+
+  teardown = removeHook;
+}
+
+function flushEffects(): void {
+  const effects = pendingEffects;
+  pendingEffects = null;
+  effects?.();
+}
+
+/**
+ * Wrap a route's output so navigation effects run once the new page is in the DOM
+ */
+export function withNavigationEffects(resolver: RouteResolver): RouteResolver {
+  return {
+    ...resolver,
+    render: (vnode) => {
+      const page = resolver.render ? resolver.render.call(resolver, vnode) : vnode;
+      return m.fragment({ oncreate: flushEffects, onupdate: flushEffects }, [page]);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import m from 'mithril';
+import { markReplaceNavigation } from './guards';
+
+export type QueryValue = string | number | boolean | QueryValue[] | null | undefined;
+
+/**
+ * Converts one query string parameter to and from a typed value.
+ * `serialize` returning `undefined` removes the parameter from the URL.
+ */
+export interface QueryParam<T> {
+  parse(raw: unknown): T;
+  serialize(value: T): QueryValue;
+}
+
+export type QuerySchema = Record<string, QueryParam<any>>;
+
+export type QueryValues<S extends QuerySchema> = {
+  [K in keyof S]: S[K] extends QueryParam<infer T> ? T : never;
+};
+
+export interface SetQueryOptions<S extends QuerySchema = QuerySchema> {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+  /** Serializers for the values being written */
+  schema?: S;
+  /** Keep parameters not mentioned in `values` (default: true) */
+  merge?: boolean;
+}
+
+function first(raw: unknown): unknown {
+  return Array.isArray(raw) ? raw[0] : raw;
+}
+
+// Values equal to the default are left out of the URL
+function withDefault<T>(
+  defaultValue: T,
+  parse: (raw: unknown) => T | undefined,
+  serialize: (value: T) => QueryValue,
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): QueryParam<T> {
+  return {
+    parse: raw => {
+      const value = raw === undefined || raw === '' ? undefined : parse(first(raw));
+      return value === undefined ? defaultValue : value;
+    },
+    serialize: value =>
+      value === undefined || value === null || (defaultValue !== undefined && equals(value, defaultValue))
+        ? undefined
+        : serialize(value)
+  };
+}
+
+function string(): QueryParam<string | undefined>;
+function string(defaultValue: string): QueryParam<string>;
+function string(defaultValue?: string): QueryParam<string | undefined> {
+  return withDefault(defaultValue, raw => String(raw), value => value);
+}
+
+function number(): QueryParam<number | undefined>;
+function number(defaultValue: number): QueryParam<number>;
+function number(defaultValue?: number): QueryParam<number | undefined> {
+  return withDefault(
+    defaultValue,
+    raw => {
+      const value = Number(raw);
+      return Number.isFinite(value) ? value : undefined;
+    },
+    value => value
+  );
+}
+
+function boolean(): QueryParam<boolean | undefined>;
+function boolean(defaultValue: boolean): QueryParam<boolean>;
+function boolean(defaultValue?: boolean): QueryParam<boolean | undefined> {
+  return withDefault(
+    defaultValue,
+    raw => {
+      if (raw === true || raw === '1') return true;
+      if (raw === false || raw === '0') return false;
+      return undefined;
+    },
+    value => value
+  );
+}
+
+function date(): QueryParam<Date | undefined>;
+function date(defaultValue: Date): QueryParam<Date>;
+function date(defaultValue?: Date): QueryParam<Date | undefined> {
+  return withDefault(
+    defaultValue,
+    raw => {
+      const value = new Date(String(raw));
+      return isNaN(value.getTime()) ? undefined : value;
+    },
+    value => value!.toISOString(),
+    (a, b) => a!.getTime() === b!.getTime()
+  );
+}
+
+function array<T = string>(item?: QueryParam<T | undefined>): QueryParam<T[]> {
+  const itemParam = (item ?? string()) as QueryParam<T | undefined>;
+  return {
+    parse: raw => {
+      if (raw === undefined || raw === '') return [];
+      const values = Array.isArray(raw) ? raw : [raw];
+      return values
+        .map(value => itemParam.parse(value))
+        .filter((value): value is T => value !== undefined);
+    },
+    serialize: values =>
+      values.length === 0 ? undefined : values.map(value => itemParam.serialize(value))
+  };
+}
+
+/**
+ * Built-in query parameter serializers
+ *
+ * Usage:
+ *   const listQuery = {
+ *     page: queryParam.number(1),
+ *     sort: queryParam.string('title'),
+ *     tags: queryParam.array()
+ *   };
+ *   const { page, sort, tags } = Router.query(listQuery);
+ */
+export const queryParam = { string, number, boolean, date, array };
+
+export function readQuery(): Record<string, any>;
+export function readQuery<S extends QuerySchema>(schema: S): QueryValues<S>;
+export function readQuery(schema?: QuerySchema): Record<string, any> {
+  const { params } = m.parsePathname(m.route.get() ?? '');
+  if (!schema) {
+    return params;
+  }
+
+  const values: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, param]) => {
+    values[key] = param.parse(params[key]);
+  });
+  return values;
+}
+
+export function writeQuery(values: Record<string, any>, options: SetQueryOptions = {}): void {
+  const { replace = false, schema, merge = true } = options;
+  const { path, params } = m.parsePathname(m.route.get() ?? '');
+  const query: Record<string, any> = merge ? { ...params } : {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    const serialized = schema?.[key] ? schema[key].serialize(value) : value;
+    if (serialized === undefined || serialized === null || serialized === '') {
+      delete query[key];
+    } else {
+      query[key] = serialized;
+    }
+  });
+
+  if (replace) {
+    markReplaceNavigation();
+  }
+  m.route.set(m.buildPathname(path, query), null, { replace });
+}
@@ -0,0 +1,150 @@
+import m from 'mithril';
+import { getCurrentLocation } from './guards';
+
+export interface TransitionOptions {
+  /** Prefix of the CSS classes applied while entering and leaving (default: 'route') */
+  name?: string;
+  /** Keyframes for the incoming page; uses the Web Animations API instead of CSS classes */
+  enter?: Keyframe[] | PropertyIndexedKeyframes;
+  /** Keyframes for the outgoing page */
+  leave?: Keyframe[] | PropertyIndexedKeyframes;
+  /** Duration in ms for keyframe animations, or an upper bound for CSS transitions */
+  duration?: number;
+  easing?: string;
+}
+
+export interface RouteTransitionAttrs extends TransitionOptions {
+  class?: string;
+}
+
+const DEFAULT_DURATION = 300;
+
+function prefersReducedMotion(): boolean {
+  return typeof window.matchMedia === 'function' &&
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+function nextFrame(callback: () => void): void {
+  requestAnimationFrame(() => requestAnimationFrame(callback));
+}
+
+// Longest transition or animation declared in CSS for the element, in ms
+function cssDuration(element: Element): number {
+  const style = getComputedStyle(element);
+  const toMs = (value: string) => (value.endsWith('ms') ? parseFloat(value) : parseFloat(value) * 1000) || 0;
+  const longest = (durations: string, delays: string) => {
+    const delayList = delays.split(',');
+    return Math.max(0, ...durations.split(',').map((duration, i) =>
+      toMs(duration.trim()) + toMs((delayList[i] ?? delayList[0]).trim())
+    ));
+  };
+  return Math.max(
+    longest(style.transitionDuration || '0s', style.transitionDelay || '0s'),
+    longest(style.animationDuration || '0s', style.animationDelay || '0s')
+  );
+}
+
+function waitForEnd(element: Element, timeout: number): Promise<void> {
+  return new Promise(resolve => {
+    const done = (event?: Event) => {
+      if (event && event.target !== element) return;
+      element.removeEventListener('transitionend', done);
+      element.removeEventListener('animationend', done);
+      clearTimeout(timer);
+      resolve();
+    };
+    element.addEventListener('transitionend', done);
+    element.addEventListener('animationend', done);
+    const timer = setTimeout(done, timeout);
+  });
+}
+
+function runClasses(element: Element, name: string, phase: 'enter' | 'leave', duration?: number): Promise<void> {
+  const from = `${name}-${phase}-from`;
+  const active = `${name}-${phase}-active`;
+  const to = `${name}-${phase}-to`;
+
+  element.classList.add(from, active);
+
+  return new Promise(resolve => {
+    nextFrame(() => {
+      element.classList.remove(from);
+      element.classList.add(to);
+      const timeout = duration ?? cssDuration(element);
+      const finished = timeout > 0 ? waitForEnd(element, timeout + 50) : Promise.resolve();
+      finished.then(() => {
+        element.classList.remove(active, to);
+        resolve();
+      });
+    });
+  });
+}
+
+function transition(element: Element, options: TransitionOptions, phase: 'enter' | 'leave'): Promise<void> {
+  if (prefersReducedMotion()) {
+    return Promise.resolve();
+  }
+
+  const keyframes = phase === 'enter' ? options.enter : options.leave;
+  if (keyframes && typeof element.animate === 'function') {
+    return element
+      .animate(keyframes, {
+        duration: options.duration ?? DEFAULT_DURATION,
+        easing: options.easing,
+        fill: 'both'
+      })
+      .finished.then(() => undefined, () => undefined);
+  }
+
+  return runClasses(element, options.name ?? 'route', phase, options.duration);
+}
+
+// Route meta `transition` overrides the wrapper's attrs; `false` turns transitions off for that route
+function routeOptions(attrs: RouteTransitionAttrs): TransitionOptions | null {
+  const configured = getCurrentLocation()?.meta.transition;
+  if (configured === false) return null;
+  if (typeof configured === 'string') return { ...attrs, name: configured };
+  if (configured && typeof configured === 'object') return { ...attrs, ...configured };
+  return attrs;
+}
+
+/**
+ * Animates route changes by keeping the outgoing page in the DOM until its
+ * leave transition finishes (via `onbeforeremove`) while the incoming page
+ * enters. Wrap the routed page with it inside a layout or a route's `render`.
+ *
+ * Without keyframes, `{name}-enter-from`, `{name}-enter-active`, `{name}-enter-to`
+ * and the matching `leave` classes are applied, as in:
+ *
+ *   .route-enter-active, .route-leave-active { transition: opacity 200ms; }
+ *   .route-enter-from, .route-leave-to { opacity: 0; }
+ *   .route-leave-active { position: absolute; inset: 0; }
+ *
+ * Transitions are skipped when the user prefers reduced motion.
+ */
+export const RouteTransition: m.ClosureComponent<RouteTransitionAttrs> = () => {
+  // The first page renders without animating
+  let initialized = false;
+
+  return {
+    view: ({ attrs, children }) => {
+      const location = getCurrentLocation();
+      const options = routeOptions(attrs);
+
+      return [
+        m('div', {
+          key: location ? location.path.replace(/[?#].*$/, '') : '',
+          class: attrs.class,
+          oncreate: ({ dom }: m.VnodeDOM) => {
+            if (initialized && options) {
+              transition(dom, options, 'enter');
+            }
+            initialized = true;
+          },
+          onbeforeremove: ({ dom }: m.VnodeDOM) =>
+            options ? transition(dom, options, 'leave') : undefined
+        }, children)
+      ];
+    }
+  };
+};
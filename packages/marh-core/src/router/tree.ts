@@ -0,0 +1,150 @@
+import m from 'mithril';
+import type { RouteDefinition, RouteMeta, RouteNode, RouteResolver } from './types';
+
+type RouteInfo = Pick<RouteResolver, 'name' | 'meta' | 'title' | 'metaTags' | 'loader' | 'pending'>;
+
+const RESOLVER_KEYS = ['onmatch', 'render', 'component', 'name', 'meta', 'title', 'metaTags', 'loader', 'pending'];
+
+export function isRouteResolver(definition: RouteDefinition): definition is RouteResolver {
+  return (
+    typeof definition === 'object' &&
+    definition !== null &&
+    typeof (definition as m.Component).view !== 'function' &&
+    RESOLVER_KEYS.some(key => key in definition)
+  );
+}
+
+export function joinPaths(parent: string, child: string): string {
+  const joined = `${parent}/${child}`.replace(/\/{2,}/g, '/');
+  const trimmed = joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Match a path against a route template. Returns its path and query params,
+ * as Mithril passes them to `onmatch`, or null when the path doesn't match.
+ */
+export function matchRoute(template: string, path: string): Record<string, string> | null {
+  const pathname = path.replace(/[?#].*$/, '') || '/';
+  const names: string[] = [];
+  const pattern = template
+    .replace(/[\\^$*+?.()|[\]{}]/g, '\\$&')
+    .replace(/:([^/.\\-]+)((?:\\\.){3})?/g, (_, name: string, rest?: string) => {
+      names.push(name);
+      return rest ? '(.*)' : '([^/]+)';
+    });
+  const match = new RegExp(`^${pattern}/?$`).exec(pathname);
+  if (!match) {
+    return null;
+  }
+
+  const params = { ...m.parsePathname(path).params } as Record<string, string>;
+  names.forEach((name, index) => {
+    params[name] = decodeURIComponent(match[index + 1]);
+  });
+  return params;
+}
+
+/**
+ * Wrap a route definition so that its rendered page is nested inside the
+ * given layouts, outermost first.
+ *
+ * Layouts are rendered as the same component vnodes on every route that
+ * shares them, so Mithril diffs them in place instead of re-mounting.
+ */
+export function withLayouts(
+  definition: RouteDefinition,
+  layouts: m.ComponentTypes<any>[]
+): RouteDefinition {
+  if (layouts.length === 0) {
+    return definition;
+  }
+
+  const resolver: RouteResolver = isRouteResolver(definition)
+    ? definition
+    : { onmatch: () => definition };
+
+  return {
+    ...resolver,
+    onmatch: resolver.onmatch
+      ? (args, requestedPath, route) => resolver.onmatch!.call(resolver, args, requestedPath, route)
+      : undefined,
+    render: (vnode) => {
+      const page = resolver.render ? resolver.render.call(resolver, vnode) : vnode;
+      return layouts.reduceRight<m.Children>(
+        (children, layout) => m(layout, vnode.attrs, children),
+        page
+      );
+    }
+  };
+}
+
+/**
+ * Attach route info from a tree node to a route definition;
+ * anything the definition declares itself wins
+ */
+export function withRouteInfo(definition: RouteDefinition, info: RouteInfo): RouteDefinition {
+  const { name, meta = {}, title, metaTags, loader, pending } = info;
+  if (
+    name === undefined &&
+    Object.keys(meta).length === 0 &&
+    title === undefined &&
+    metaTags === undefined &&
+    loader === undefined &&
+    pending === undefined
+  ) {
+    return definition;
+  }
+
+  const resolver: RouteResolver = isRouteResolver(definition)
+    ? definition
+    : { onmatch: () => definition };
+
+  return {
+    ...resolver,
+    name: resolver.name ?? name,
+    meta: { ...meta, ...resolver.meta },
+    title: resolver.title ?? title,
+    loader: resolver.loader ?? loader,
+    pending: resolver.pending ?? pending,
+    metaTags: metaTags || resolver.metaTags ? { ...metaTags, ...resolver.metaTags } : undefined
+  };
+}
+
+/**
+ * Flatten a nested route tree into the flat table `m.route` expects
+ */
+export function flattenRoutes(
+  nodes: RouteNode[],
+  parentPath = '/',
+  layouts: m.ComponentTypes<any>[] = [],
+  meta: RouteMeta = {}
+): Record<string, RouteDefinition> {
+  const table: Record<string, RouteDefinition> = {};
+
+  nodes.forEach(node => {
+    const path = joinPaths(parentPath, node.path ?? '');
+    const nodeLayouts = node.layout ? [...layouts, node.layout] : layouts;
+    const nodeMeta = node.meta ? { ...meta, ...node.meta } : meta;
+
+    if (node.component) {
+      table[path] = withLayouts(
+        withRouteInfo(node.component, {
+          name: node.name,
+          meta: nodeMeta,
+          title: node.title,
+          metaTags: node.metaTags,
+          loader: node.loader,
+          pending: node.pending
+        }),
+        nodeLayouts
+      );
+    }
+
+    if (node.children) {
+      Object.assign(table, flattenRoutes(node.children, path, nodeLayouts, nodeMeta));
+    }
+  });
+
+  return table;
+}
@@ -0,0 +1,142 @@
+import type m from 'mithril';
+import type { RouteConfig } from '../types';
+
+/**
+ * Arbitrary per-route data, e.g. `{ requiresAuth: true, role: 'admin' }`
+ */
+export type RouteMeta = NonNullable<RouteConfig['meta']>;
+
+export interface RouteOptions {
+  onmatch?: (args: any, requestedPath: string, route: string) => any;
+  render?: (vnode: m.Vnode) => m.Children;
+}
+
+export interface RouteResolver<Params = any> {
+  /** Page to render when there's no `onmatch` */
+  component?: m.ComponentTypes<any>;
+  view?: (vnode: m.Vnode) => m.Children;
+  onmatch?: (args: Params, requestedPath: string, route: string) => any;
+  render?: (vnode: m.Vnode<Params>) => m.Children;
+  /** Unique name for reverse routing with `Router.url` and `Router.go` */
+  name?: string;
+  meta?: RouteMeta;
+  /** Document title while this route is active */
+  title?: RouteTitle;
+  /** Content of named `<meta>` tags while this route is active, e.g. `{ description: '...' }` */
+  metaTags?: Record<string, string>;
+  /** Load whatever the route needs ahead of navigation, e.g. on link hover */
+  prefetch?: () => Promise<void>;
+  /** Fetch the route's data before it renders; the result is available from `Router.data()` */
+  loader?: RouteLoader<Params>;
+  /** Rendered in place of the page while `loader` runs; without it the previous page stays until data arrives */
+  pending?: m.ComponentTypes<any>;
+}
+
+export type RouteDefinition<Params = any> = m.ComponentTypes<Params> | RouteResolver<Params>;
+
+/**
+ * A node of a nested route tree.
+ *
+ * `path` is relative to the parent node. A `layout` wraps every route below it
+ * and receives the matched child as `vnode.children`; `component` renders the
+ * node's own path (use `path: ''` for an index route). `meta` is inherited by
+ * child nodes, which may override individual keys.
+ */
+export interface RouteNode {
+  path?: string;
+  name?: string;
+  component?: RouteDefinition;
+  layout?: m.ComponentTypes<any>;
+  meta?: RouteMeta;
+  title?: RouteTitle;
+  metaTags?: Record<string, string>;
+  loader?: RouteLoader;
+  pending?: m.ComponentTypes<any>;
+  children?: RouteNode[];
+}
+
+/**
+ * A resolved navigation target as seen by guards and after hooks
+ */
+export interface RouteLocation {
+  /** The requested path, e.g. `/users/1` */
+  path: string;
+  /** The matched route template, e.g. `/users/:id` */
+  route: string;
+  params: Record<string, string>;
+  meta: RouteMeta;
+}
+
+export interface LoaderContext {
+  /** Aborted when the user navigates away before the loader finishes */
+  signal: AbortSignal;
+  location: RouteLocation;
+}
+
+export type RouteLoader<Params = any, T = any> = (
+  params: Params,
+  context: LoaderContext
+) => T | Promise<T>;
+
+export type RouteTitle = string | ((location: RouteLocation) => string);
+
+/**
+ * `true` (or nothing) continues, `false` cancels and a string redirects to that path
+ */
+export type NavigationGuardResult = boolean | string | void;
+
+export type NavigationGuard = (
+  to: RouteLocation,
+  from: RouteLocation | null
+) => NavigationGuardResult | Promise<NavigationGuardResult>;
+
+export type AfterNavigationHook = (to: RouteLocation, from: RouteLocation | null) => void;
+
+// Mithril ends a parameter name at `/`, `.` or `-`, and `:rest...` captures the remainder
+type ParamName<Segment extends string> =
+  Segment extends `${infer Name}...` ? Name
+  : Segment extends `${infer Name}.${string}` ? Name
+  : Segment extends `${infer Name}-${string}` ? Name
+  : Segment;
+
+export type ParamNames<Path extends string> =
+  Path extends `${string}:${infer Tail}`
+    ? Tail extends `${infer Segment}/${infer Rest}`
+      ? ParamName<Segment> | ParamNames<Segment> | ParamNames<Rest>
+      : ParamName<Tail> | ParamNames<Tail>
+    : never;
+
+/**
+ * Params object inferred from a route template,
+ * e.g. `RouteParams<'/users/:id/posts/:postId'>` is `{ id: string; postId: string }`
+ */
+export type RouteParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : { [K in ParamNames<Path>]: string };
+
+/**
+ * Values accepted when interpolating a route template
+ */
+export type RouteParamValues<Path extends string> = string extends Path
+  ? Record<string, string | number>
+  : { [K in ParamNames<Path>]: string | number };
+
+// Params are only required when the template actually declares some
+export type ParamArgs<Path extends string, Rest extends any[] = []> = string extends Path
+  ? [params?: Record<string, any>, ...rest: Rest]
+  : [ParamNames<Path>] extends [never]
+    ? [params?: Record<string, any>, ...rest: Rest]
+    : [params: RouteParamValues<Path> & Record<string, any>, ...rest: Rest];
+
+/**
+ * A route table whose keys are route templates and whose components
+ * receive the params of their template as attrs
+ */
+export type RouteTable<Routes> = {
+  [Path in keyof Routes]: Path extends string ? RouteDefinition<RouteParams<Path>> : never;
+};
+
+/**
+ * Route templates registered in a route table
+ */
+export type RoutePath<Routes> = Extract<keyof Routes, string>;
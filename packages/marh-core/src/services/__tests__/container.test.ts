@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Container, createToken, getContainer, register, resetContainer, setContainer, use } from '../container';
+
+class Counter {
+  count = 0;
+}
+
+describe('Container', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  describe('lifetimes', () => {
+    it('creates a singleton once and shares it with every scope', () => {
+      const factory = vi.fn(() => new Counter());
+      container.register(Counter, factory);
+
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.resolve(Counter)).toBe(container.resolve(Counter));
+      expect(second.resolve(Counter)).toBe(container.resolve(Counter));
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('creates a scoped instance once per scope', () => {
+      container.register(Counter, () => new Counter(), { lifetime: 'scoped' });
+
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.resolve(Counter)).toBe(first.resolve(Counter));
+      expect(first.resolve(Counter)).not.toBe(second.resolve(Counter));
+      expect(first.resolve(Counter)).not.toBe(container.resolve(Counter));
+    });
+
+    it('creates a transient instance on every resolve', () => {
+      container.register(Counter, () => new Counter(), { lifetime: 'transient' });
+
+      expect(container.resolve(Counter)).not.toBe(container.resolve(Counter));
+    });
+
+    it('gives singleton factories the root container, not the scope', () => {
+      const Request = createToken<{ id: number }>('Request');
+      const Service = createToken<{ request: { id: number } }>('Service');
+      let nextId = 0;
+      container.register(Request, () => ({ id: nextId++ }), { lifetime: 'scoped' });
+      container.register(Service, c => ({ request: c.resolve(Request) }));
+
+      const scope = container.createScope();
+
+      expect(scope.resolve(Service).request).toBe(container.resolve(Request));
+      expect(scope.resolve(Service).request).not.toBe(scope.resolve(Request));
+    });
+
+    it('throws for tokens that were never registered', () => {
+      expect(() => container.resolve(createToken('Missing'))).toThrow('Nothing is registered for Missing');
+    });
+  });
+
+  describe('provide', () => {
+    it('resolves the given instance, e.g. a mock', () => {
+      const mock = new Counter();
+      container.provide(Counter, mock);
+
+      expect(container.resolve(Counter)).toBe(mock);
+      expect(container.createScope().resolve(Counter)).toBe(mock);
+    });
+
+    it('replaces a registration and disposes its instance', () => {
+      const dispose = vi.fn();
+      container.register(Counter, () => new Counter(), { dispose });
+      const original = container.resolve(Counter);
+
+      container.provide(Counter, new Counter());
+
+      expect(dispose).toHaveBeenCalledWith(original);
+      expect(container.resolve(Counter)).not.toBe(original);
+    });
+  });
+
+  describe('reset', () => {
+    it('disposes instances newest first', () => {
+      const disposed: string[] = [];
+      const Api = createToken<string>('Api');
+      const Users = createToken<string>('Users');
+      const Store = createToken<string>('Store');
+      const dispose = (instance: string) => disposed.push(instance);
+      container.register(Api, () => 'api', { dispose });
+      container.register(Users, c => (c.resolve(Api), 'users'), { dispose });
+      container.register(Store, c => (c.resolve(Users), 'store'), { dispose });
+
+      container.resolve(Store);
+      container.reset();
+
+      expect(disposed).toEqual(['store', 'users', 'api']);
+    });
+
+    it('creates new instances after a reset', () => {
+      container.register(Counter, () => new Counter());
+      const before = container.resolve(Counter);
+
+      container.reset();
+
+      expect(container.resolve(Counter)).not.toBe(before);
+    });
+
+    it('drops only the scope\'s own instances on a scope', () => {
+      const dispose = vi.fn();
+      const Session = createToken<Counter>('Session');
+      container.register(Counter, () => new Counter(), { dispose });
+      container.register(Session, () => new Counter(), { lifetime: 'scoped', dispose });
+      const scope = container.createScope();
+      const singleton = scope.resolve(Counter);
+      const session = scope.resolve(Session);
+
+      scope.reset();
+
+      expect(dispose).toHaveBeenCalledTimes(1);
+      expect(dispose).toHaveBeenCalledWith(session);
+      expect(scope.resolve(Counter)).toBe(singleton);
+    });
+
+    it('never disposes transient instances', () => {
+      const dispose = vi.fn();
+      container.register(Counter, () => new Counter(), { lifetime: 'transient', dispose });
+      container.resolve(Counter);
+
+      container.reset();
+
+      expect(dispose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('circular dependencies', () => {
+    const A = createToken<unknown>('A');
+    const B = createToken<unknown>('B');
+
+    it('throws with the path of the cycle', () => {
+      container.register(A, c => c.resolve(B));
+      container.register(B, c => c.resolve(A));
+
+      expect(() => container.resolve(A)).toThrow('Circular dependency: A -> B -> A');
+    });
+
+    it('throws for a cycle through a singleton resolved from a scope', () => {
+      container.register(A, c => c.resolve(B), { lifetime: 'scoped' });
+      container.register(B, c => c.resolve(A));
+
+      expect(() => container.createScope().resolve(A)).toThrow('Circular dependency: A -> B -> A');
+    });
+
+    it('can resolve again after a cycle threw', () => {
+      container.register(A, c => c.resolve(B));
+      container.register(B, c => c.resolve(A));
+      expect(() => container.resolve(A)).toThrow();
+
+      container.register(B, () => 'b');
+
+      expect(container.resolve(A)).toBe('b');
+    });
+  });
+});
+
+describe('use', () => {
+  const Settings = createToken<{ theme: string }>('Settings');
+
+  beforeEach(() => {
+    register(Settings, () => ({ theme: 'light' }));
+  });
+
+  afterEach(() => {
+    resetContainer();
+  });
+
+  it('resolves from the root container', () => {
+    expect(use(Settings)).toBe(use(Settings));
+    expect(use(Settings)).toBe(getContainer().resolve(Settings));
+  });
+
+  it('resolves from the container set with setContainer', () => {
+    const scope = getContainer().createScope();
+    const mock = { theme: 'dark' };
+    setContainer(scope);
+    scope.register(Settings, () => mock);
+
+    expect(use(Settings)).toBe(mock);
+  });
+
+  it('goes back to the root container and fresh instances on resetContainer', () => {
+    const before = use(Settings);
+    const scope = getContainer().createScope();
+    setContainer(scope);
+
+    resetContainer();
+
+    expect(getContainer()).not.toBe(scope);
+    expect(use(Settings)).not.toBe(before);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QueryClient } from '../query-client';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('QueryClient', () => {
+  let client: QueryClient;
+
+  beforeEach(() => {
+    client = new QueryClient({ retry: 0 });
+  });
+
+  afterEach(() => {
+    client.clear();
+    vi.useRealTimers();
+  });
+
+  describe('fetching', () => {
+    it('shares one request between concurrent fetches of a key', async () => {
+      const fetcher = vi.fn(async () => ['ada']);
+
+      const [first, second] = await Promise.all([
+        client.fetchQuery(['users'], fetcher),
+        client.fetchQuery(['users'], fetcher)
+      ]);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(['ada']);
+      expect(second).toBe(first);
+    });
+
+    it('serves fresh data from the cache', async () => {
+      const fetcher = vi.fn(async () => 1);
+
+      await client.fetchQuery('count', fetcher, { staleTime: 60_000 });
+      await client.fetchQuery('count', fetcher, { staleTime: 60_000 });
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('refetches stale data', async () => {
+      const fetcher = vi.fn(async () => 1);
+
+      await client.fetchQuery('count', fetcher);
+      await client.fetchQuery('count', fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects with the fetch error and keeps it in the query state', async () => {
+      await expect(client.fetchQuery('broken', async () => {
+        throw new Error('offline');
+      })).rejects.toThrow('offline');
+
+      expect(client.getQueryState('broken')).toMatchObject({ status: 'error', fetching: false });
+      expect(client.getQueryState('broken')!.error!.message).toBe('offline');
+    });
+
+    it('retries failed fetches', async () => {
+      const fetcher = vi.fn()
+        .mockRejectedValueOnce(new Error('flaky'))
+        .mockResolvedValueOnce('ok');
+
+      const data = await client.fetchQuery('flaky', fetcher, { retry: { retries: 1, delay: 0 } });
+
+      expect(data).toBe('ok');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('invalidateQueries', () => {
+    it('marks queries matching the prefix as stale', async () => {
+      await client.fetchQuery(['users', 1], async () => 'ada', { staleTime: 60_000 });
+      await client.fetchQuery(['users', 2], async () => 'grace', { staleTime: 60_000 });
+      await client.fetchQuery(['posts'], async () => [], { staleTime: 60_000 });
+
+      await client.invalidateQueries(['users']);
+
+      const users = vi.fn(async () => 'fresh');
+      const posts = vi.fn(async () => []);
+      await client.fetchQuery(['users', 1], users, { staleTime: 60_000 });
+      await client.fetchQuery(['posts'], posts, { staleTime: 60_000 });
+
+      expect(users).toHaveBeenCalledTimes(1);
+      expect(posts).not.toHaveBeenCalled();
+    });
+
+    it('refetches observed queries right away', async () => {
+      const fetcher = vi.fn(async () => fetcher.mock.calls.length);
+      client.watch(['users'], fetcher, { staleTime: 60_000 });
+      const stop = client.observe(['users']);
+      await vi.waitFor(() => expect(client.getQueryData(['users'])).toBe(1));
+
+      await client.invalidateQueries('users');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(client.getQueryData(['users'])).toBe(2);
+      stop();
+    });
+
+    it('drops the result of a fetch that was in flight', async () => {
+      const first = deferred<string>();
+      const second = deferred<string>();
+      const fetcher = vi.fn()
+        .mockReturnValueOnce(first.promise)
+        .mockReturnValueOnce(second.promise);
+      client.watch('user', fetcher);
+      const stop = client.observe('user');
+
+      const refetch = client.invalidateQueries('user');
+      second.resolve('new');
+      await refetch;
+      first.resolve('old');
+      await first.promise;
+
+      expect(client.getQueryData('user')).toBe('new');
+      stop();
+    });
+  });
+
+  describe('optimisticUpdate', () => {
+    it('rolls back the data set during the update', async () => {
+      await client.fetchQuery(['todos'], async () => ['a']);
+      const before = client.getQueryState(['todos']);
+
+      const update = client.optimisticUpdate(() => {
+        client.setQueryData<string[]>(['todos'], todos => [...todos!, 'b']);
+        client.setQueryData(['todos', 'count'], 2);
+      });
+
+      expect(client.getQueryData(['todos'])).toEqual(['a', 'b']);
+      expect(update.keys).toEqual([['todos'], ['todos', 'count']]);
+
+      update.rollback();
+
+      expect(client.getQueryState(['todos'])).toEqual(before);
+      expect(client.getQueryData(['todos', 'count'])).toBeUndefined();
+    });
+
+    it('records only the first value of a key set twice', async () => {
+      client.setQueryData('name', 'ada');
+
+      const update = client.optimisticUpdate(() => {
+        client.setQueryData('name', 'grace');
+        client.setQueryData('name', 'hopper');
+      });
+      update.rollback();
+
+      expect(client.getQueryData('name')).toBe('ada');
+    });
+
+    it('leaves data set after the update alone', () => {
+      client.setQueryData('name', 'ada');
+      const update = client.optimisticUpdate(() => client.setQueryData('name', 'grace'));
+      client.setQueryData('other', 1);
+
+      update.rollback();
+
+      expect(client.getQueryData('other')).toBe(1);
+    });
+  });
+
+  describe('garbage collection', () => {
+    it('removes unobserved queries after cacheTime', async () => {
+      vi.useFakeTimers();
+      await client.fetchQuery('count', async () => 1, { cacheTime: 1000 });
+
+      vi.advanceTimersByTime(999);
+      expect(client.getQueryData('count')).toBe(1);
+
+      vi.advanceTimersByTime(1);
+      expect(client.getQueryState('count')).toBeUndefined();
+    });
+
+    it('keeps observed queries until they are released', async () => {
+      vi.useFakeTimers();
+      client.setQueryData('count', 1);
+      client.watch('count', async () => 1, { cacheTime: 1000, staleTime: 60_000 });
+      const stop = client.observe('count');
+
+      vi.advanceTimersByTime(5000);
+      expect(client.getQueryData('count')).toBe(1);
+
+      stop();
+      vi.advanceTimersByTime(1000);
+      expect(client.getQueryState('count')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Identifies a store or service in the container. Classes can be used as
+ * tokens directly; `createToken` makes one for interfaces and plain values.
+ */
+export type Token<T> = InjectionToken<T> | (abstract new (...args: any[]) => T);
+
+export interface InjectionToken<T> {
+  readonly name: string;
+  /** Type marker only; never set */
+  readonly __type?: T;
+}
+
+/**
+ * - `singleton`: one instance, shared by every scope
+ * - `scoped`: one instance per scope, e.g. per window or per test
+ * - `transient`: a new instance on every resolve
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient';
+
+export type Factory<T> = (container: Container) => T;
+
+export interface RegisterOptions<T> {
+  /** Default: 'singleton' */
+  lifetime?: Lifetime;
+  /** Called with the instance when it's dropped by `reset()` or re-registered */
+  dispose?: (instance: T) => void;
+}
+
+interface Registration<T> {
+  factory: Factory<T>;
+  lifetime: Lifetime;
+  dispose?: (instance: T) => void;
+}
+
+export function createToken<T>(name: string): InjectionToken<T> {
+  return { name };
+}
+
+function tokenName(token: Token<any>): string {
+  return token.name || 'anonymous token';
+}
+
+/**
+ * Registry of stores and services created on first use
+ *
+ * The root container holds registrations and singletons. Scopes created
+ * with `createScope()` share those and keep their own `scoped` instances.
+ */
+export class Container {
+  private readonly registrations: Map<Token<any>, Registration<any>>;
+  private readonly instances = new Map<Token<any>, any>();
+  // Shared with scopes so a cycle through a singleton is caught too
+  private readonly resolving: Token<any>[];
+
+  constructor(private readonly parent: Container | null = null) {
+    this.registrations = parent ? parent.registrations : new Map();
+    this.resolving = parent ? parent.resolving : [];
+  }
+
+  /**
+   * Register how to create `token`, replacing any previous registration
+   * and instance
+   */
+  register<T>(token: Token<T>, factory: Factory<T>, options: RegisterOptions<T> = {}): this {
+    this.root().drop(token);
+    this.registrations.set(token, {
+      factory,
+      lifetime: options.lifetime ?? 'singleton',
+      dispose: options.dispose
+    });
+    return this;
+  }
+
+  /**
+   * Register an existing instance as a singleton, e.g. a mock in tests
+   */
+  provide<T>(token: Token<T>, instance: T): this {
+    this.register(token, () => instance);
+    this.root().instances.set(token, instance);
+    return this;
+  }
+
+  has(token: Token<any>): boolean {
+    return this.registrations.has(token);
+  }
+
+  resolve<T>(token: Token<T>): T {
+    const registration = this.registrations.get(token) as Registration<T> | undefined;
+    if (!registration) {
+      throw new Error(`Nothing is registered for ${tokenName(token)}`);
+    }
+
+    const owner = registration.lifetime === 'singleton' ? this.root() : this;
+    if (registration.lifetime !== 'transient' && owner.instances.has(token)) {
+      return owner.instances.get(token);
+    }
+
+    if (this.resolving.includes(token)) {
+      const cycle = [...this.resolving, token].map(tokenName).join(' -> ');
+      throw new Error(`Circular dependency: ${cycle}`);
+    }
+
+    this.resolving.push(token);
+    try {
+      // Singletons get the root container so they never capture a scope's instances
+      const instance = registration.factory(owner);
+      if (registration.lifetime !== 'transient') {
+        owner.instances.set(token, instance);
+      }
+      return instance;
+    } finally {
+      this.resolving.pop();
+    }
+  }
+
+  createScope(): Container {
+    return new Container(this.root());
+  }
+
+  /**
+   * Drop the instances this container created, keeping registrations.
+   * On the root container this drops singletons too. Instances are
+   * disposed newest first, so each goes before the dependencies it was
+   * created with.
+   */
+  reset(): void {
+    [...this.instances.keys()].reverse().forEach(token => this.drop(token));
+  }
+
+  private root(): Container {
+    return this.parent ? this.parent.root() : this;
+  }
+
+  private drop(token: Token<any>): void {
+    if (!this.instances.has(token)) return;
+    const instance = this.instances.get(token);
+    this.instances.delete(token);
+    this.registrations.get(token)?.dispose?.(instance);
+  }
+}
+
+const rootContainer = new Container();
+let activeContainer = rootContainer;
+
+/**
+ * The container `use` resolves from
+ */
+export function getContainer(): Container {
+  return activeContainer;
+}
+
+/**
+ * Resolve from `container` instead, e.g. a scope per test. Pass null to go
+ * back to the root container.
+ */
+export function setContainer(container: Container | null): void {
+  activeContainer = container ?? rootContainer;
+}
+
+/**
+ * Drop every instance and go back to the root container; call it between tests
+ */
+export function resetContainer(): void {
+  if (activeContainer !== rootContainer) {
+    activeContainer.reset();
+  }
+  activeContainer = rootContainer;
+  rootContainer.reset();
+}
+
+/**
+ * Register a store or service with the root container
+ */
+export function register<T>(token: Token<T>, factory: Factory<T>, options?: RegisterOptions<T>): void {
+  rootContainer.register(token, factory, options);
+}
+
+/**
+ * Resolve a store or service, creating it on first use
+ *
+ *   const appStore = use(AppStore);
+ */
+export function use<T>(token: Token<T>): T {
+  return activeContainer.resolve(token);
+}
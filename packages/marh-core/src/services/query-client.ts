@@ -0,0 +1,413 @@
+import m from 'mithril';
+import { runWithRetry, type RetryPolicy } from '../utils/retry';
+
+/**
+ * Identifies cached data, e.g. `['users', userId]`. Keys are matched by
+ * prefix when invalidating, so `['users']` covers every user query.
+ */
+export type QueryKey = string | readonly unknown[];
+
+export type QueryFetcher<T> = () => Promise<T>;
+
+export interface QueryCacheOptions {
+  /** How long fetched data counts as fresh, in ms (default: 0) */
+  staleTime?: number;
+  /** How long data nothing uses stays cached, in ms (default: 5 minutes) */
+  cacheTime?: number;
+  /** Refetch stale data when the window regains focus (default: true) */
+  refetchOnWindowFocus?: boolean;
+  /** Refetch stale data when the network comes back (default: true) */
+  refetchOnReconnect?: boolean;
+  /** Retries after a failed fetch, waiting 1s, 2s, 4s... in between (default: 3) */
+  retry?: number | RetryPolicy;
+}
+
+export type QueryStatus = 'loading' | 'success' | 'error';
+
+/**
+ * Snapshot of a cached query
+ */
+export interface QueryState<T> {
+  data: T | null;
+  error: Error | null;
+  status: QueryStatus;
+  /** Whether a fetch is in flight, including background refetches */
+  fetching: boolean;
+  /** When the data was last fetched or set; 0 when there's none */
+  updatedAt: number;
+}
+
+export interface OptimisticUpdate {
+  /** Keys whose data was set during the update */
+  keys: QueryKey[];
+  /** Put that data back as it was */
+  rollback(): void;
+}
+
+interface Query {
+  key: readonly unknown[];
+  fetcher: QueryFetcher<any>;
+  options: Required<QueryCacheOptions>;
+  data: any;
+  hasData: boolean;
+  error: Error | null;
+  updatedAt: number;
+  invalidated: boolean;
+  observers: number;
+  promise: Promise<void> | null;
+  // Bumped to drop the result of the fetch in flight
+  fetchId: number;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+type Snapshot = Pick<Query, 'data' | 'hasData' | 'error' | 'updatedAt' | 'invalidated'>;
+
+const DEFAULT_OPTIONS: Required<QueryCacheOptions> = {
+  staleTime: 0,
+  cacheTime: 5 * 60 * 1000,
+  refetchOnWindowFocus: true,
+  refetchOnReconnect: true,
+  retry: 3
+};
+
+function toKey(key: QueryKey): readonly unknown[] {
+  return typeof key === 'string' ? [key] : key;
+}
+
+function hashKey(key: QueryKey): string {
+  return JSON.stringify(toKey(key));
+}
+
+function matches(key: readonly unknown[], prefix: QueryKey | undefined): boolean {
+  if (prefix === undefined) return true;
+  const parts = toKey(prefix);
+  return parts.length <= key.length && parts.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Shared cache of fetched data
+ *
+ * Concurrent fetches of the same key share one request. Data is served
+ * from the cache while it's fresh, and stale data stays visible while it
+ * refetches in the background. Mithril redraws whenever a fetch starts or
+ * settles.
+ */
+export class QueryClient {
+  private readonly queries = new Map<string, Query>();
+  private readonly defaults: Required<QueryCacheOptions>;
+  // Data replaced during `optimisticUpdate`, by key
+  private recording: Map<string, Snapshot> | null = null;
+
+  constructor(defaults: QueryCacheOptions = {}) {
+    this.defaults = { ...DEFAULT_OPTIONS, ...defaults };
+  }
+
+  /**
+   * Return cached data while it's fresh, otherwise fetch it. Rejects when
+   * the fetch fails.
+   */
+  async fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options?: QueryCacheOptions): Promise<T> {
+    const query = this.build(key, fetcher, options);
+    if (!this.isStale(query)) {
+      return query.data;
+    }
+
+    await this.fetch(query);
+    if (query.error) {
+      throw query.error;
+    }
+    return query.data;
+  }
+
+  getQueryState<T>(key: QueryKey): QueryState<T> | undefined {
+    const query = this.queries.get(hashKey(key));
+    return query && this.stateOf(query);
+  }
+
+  getQueryData<T>(key: QueryKey): T | undefined {
+    const query = this.queries.get(hashKey(key));
+    return query?.hasData ? query.data : undefined;
+  }
+
+  /**
+   * Replace cached data, e.g. with the response of a mutation. Drops the
+   * result of a fetch of the same key that's in flight.
+   */
+  setQueryData<T>(key: QueryKey, data: T | ((prev: T | undefined) => T)): void {
+    const hash = hashKey(key);
+    const query = this.queries.get(hash) ?? this.build(key, () => Promise.reject(new Error(`No fetcher for query ${hash}`)));
+    if (this.recording && !this.recording.has(hash)) {
+      const { data: prev, hasData, error, updatedAt, invalidated } = query;
+      this.recording.set(hash, { data: prev, hasData, error, updatedAt, invalidated });
+    }
+
+    this.cancel(query);
+    query.data = typeof data === 'function'
+      ? (data as (prev: T | undefined) => T)(query.hasData ? query.data : undefined)
+      : data;
+    query.hasData = true;
+    query.error = null;
+    query.updatedAt = Date.now();
+    query.invalidated = false;
+    this.scheduleGc(query);
+    m.redraw();
+  }
+
+  /**
+   * Mark queries matching `prefix` as stale and refetch the ones in use.
+   * Without a prefix, every query is invalidated.
+   */
+  invalidateQueries(prefix?: QueryKey): Promise<void> {
+    const refetches: Promise<void>[] = [];
+    this.matching(prefix).forEach(query => {
+      query.invalidated = true;
+      if (query.observers > 0) {
+        this.cancel(query);
+        refetches.push(this.fetch(query));
+      }
+    });
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  /**
+   * Drop the results of fetches in flight for queries matching `prefix`
+   */
+  cancelQueries(prefix?: QueryKey): void {
+    this.matching(prefix).forEach(query => this.cancel(query));
+  }
+
+  /**
+   * Remove queries matching `prefix` from the cache
+   */
+  removeQueries(prefix?: QueryKey): void {
+    this.matching(prefix).forEach(query => {
+      this.cancel(query);
+      clearTimeout(query.gcTimer);
+      this.queries.delete(hashKey(query.key));
+    });
+  }
+
+  clear(): void {
+    this.removeQueries();
+  }
+
+  /**
+   * Run `update`, recording the data it sets with `setQueryData` so it
+   * can be rolled back, e.g. when the mutation it anticipates fails
+   */
+  optimisticUpdate(update: () => void): OptimisticUpdate {
+    const previous = this.recording;
+    const recorded = new Map<string, Snapshot>();
+    this.recording = recorded;
+    try {
+      update();
+    } finally {
+      this.recording = previous;
+    }
+
+    return {
+      keys: [...recorded.keys()].map(hash => JSON.parse(hash)),
+      rollback: () => {
+        recorded.forEach((snapshot, hash) => {
+          const query = this.queries.get(hash);
+          if (query) {
+            this.cancel(query);
+            Object.assign(query, snapshot);
+          }
+        });
+        m.redraw();
+      }
+    };
+  }
+
+  /**
+   * Get or create the query for `key`, using the latest fetcher and
+   * options. Used by `useQuery` while rendering.
+   */
+  watch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options?: QueryCacheOptions): QueryState<T> {
+    return this.stateOf(this.build(key, fetcher, options));
+  }
+
+  /**
+   * Keep the query for `key` cached while it's observed, fetching it now
+   * if it's stale. Returns a function that stops observing.
+   */
+  observe(key: QueryKey): () => void {
+    const query = this.queries.get(hashKey(key));
+    if (!query) {
+      throw new Error(`Query ${hashKey(key)} must be watched before it's observed`);
+    }
+
+    query.observers++;
+    clearTimeout(query.gcTimer);
+    if (this.isStale(query)) {
+      this.fetch(query);
+    }
+
+    let observing = true;
+    return () => {
+      if (!observing) return;
+      observing = false;
+      query.observers--;
+      this.scheduleGc(query);
+    };
+  }
+
+  /**
+   * Refetch the stale queries in use, e.g. when the window regains focus
+   */
+  refetchStale(reason: 'focus' | 'reconnect'): void {
+    this.queries.forEach(query => {
+      const enabled = reason === 'focus' ? query.options.refetchOnWindowFocus : query.options.refetchOnReconnect;
+      if (enabled && query.observers > 0 && this.isStale(query)) {
+        this.fetch(query);
+      }
+    });
+  }
+
+  refetch(key: QueryKey): Promise<void> {
+    const query = this.queries.get(hashKey(key));
+    if (!query) return Promise.resolve();
+    query.invalidated = true;
+    return this.fetch(query);
+  }
+
+  private build(key: QueryKey, fetcher: QueryFetcher<any>, options: QueryCacheOptions = {}): Query {
+    const hash = hashKey(key);
+    let query = this.queries.get(hash);
+    if (!query) {
+      query = {
+        key: toKey(key),
+        fetcher,
+        options: { ...this.defaults, ...options },
+        data: null,
+        hasData: false,
+        error: null,
+        updatedAt: 0,
+        invalidated: false,
+        observers: 0,
+        promise: null,
+        fetchId: 0
+      };
+      this.queries.set(hash, query);
+      this.scheduleGc(query);
+    } else {
+      query.fetcher = fetcher;
+      query.options = { ...this.defaults, ...options };
+    }
+    return query;
+  }
+
+  private stateOf(query: Query): QueryState<any> {
+    return {
+      data: query.hasData ? query.data : null,
+      error: query.error,
+      status: query.error ? 'error' : query.hasData ? 'success' : 'loading',
+      fetching: query.promise !== null,
+      updatedAt: query.updatedAt
+    };
+  }
+
+  private isStale(query: Query): boolean {
+    return !query.hasData || query.invalidated || Date.now() - query.updatedAt >= query.options.staleTime;
+  }
+
+  // Start a fetch, or join the one in flight
+  private fetch(query: Query): Promise<void> {
+    if (query.promise) return query.promise;
+
+    const fetchId = ++query.fetchId;
+    const current = () => fetchId === query.fetchId;
+
+    query.promise = runWithRetry(() => query.fetcher(), { retry: query.options.retry })
+      .then(
+        data => {
+          if (!current()) return;
+          query.data = data;
+          query.hasData = true;
+          query.error = null;
+          query.updatedAt = Date.now();
+          query.invalidated = false;
+        },
+        error => {
+          if (!current()) return;
+          query.error = toError(error);
+        }
+      )
+      .finally(() => {
+        if (!current()) return;
+        query.promise = null;
+        m.redraw();
+      });
+
+    m.redraw();
+    return query.promise;
+  }
+
+  private cancel(query: Query): void {
+    if (!query.promise) return;
+    query.fetchId++;
+    query.promise = null;
+  }
+
+  private matching(prefix: QueryKey | undefined): Query[] {
+    return [...this.queries.values()].filter(query => matches(query.key, prefix));
+  }
+
+  // Remove the query once nothing has used it for `cacheTime`
+  private scheduleGc(query: Query): void {
+    clearTimeout(query.gcTimer);
+    if (query.observers > 0) return;
+    query.gcTimer = setTimeout(() => {
+      const hash = hashKey(query.key);
+      if (query.observers === 0 && this.queries.get(hash) === query) {
+        this.queries.delete(hash);
+      }
+    }, query.options.cacheTime);
+  }
+}
+
+let activeClient = new QueryClient();
+let listening = false;
+
+// Window focus and reconnect refetches go to whichever client is active
+function listenForRefetch(): void {
+  if (listening || typeof window === 'undefined') return;
+  listening = true;
+
+  const onFocus = () => activeClient.refetchStale('focus');
+  window.addEventListener('focus', onFocus);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') onFocus();
+  });
+  window.addEventListener('online', () => activeClient.refetchStale('reconnect'));
+}
+
+/**
+ * The client `useQuery` and `useMutation` use
+ */
+export function getQueryClient(): QueryClient {
+  listenForRefetch();
+  return activeClient;
+}
+
+/**
+ * Use `client` instead, e.g. one with different defaults or a fresh one
+ * per test
+ */
+export function setQueryClient(client: QueryClient): void {
+  activeClient = client;
+}
+
+/**
+ * Mark queries matching `prefix` as stale and refetch the ones in use
+ *
+ *   invalidateQueries(['users']);
+ */
+export function invalidateQueries(prefix?: QueryKey): Promise<void> {
+  return getQueryClient().invalidateQueries(prefix);
+}
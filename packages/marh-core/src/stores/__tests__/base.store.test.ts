@@ -0,0 +1,385 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import m from 'mithril';
+import { Store, createStore } from '../base.store';
+
+interface CounterState {
+  count: number;
+  label: string;
+}
+
+class CounterStore extends Store<CounterState> {
+  constructor() {
+    super({ count: 0, label: 'clicks' });
+  }
+
+  set(updates: Partial<CounterState>, options?: { silent?: boolean }): void {
+    this.setState(updates, options);
+  }
+
+  increment(): void {
+    this.setState(draft => {
+      draft.count++;
+    });
+  }
+
+  touch(): void {
+    this.setState(draft => {
+      draft.label = draft.label.slice();
+    });
+  }
+
+  reset(): void {
+    this.setState({ count: 0, label: 'clicks' });
+  }
+}
+
+// Lets the microtask that redraws run
+const flush = () => Promise.resolve();
+
+describe('Store updates', () => {
+  let redraw: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    redraw = vi.spyOn(m, 'redraw').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    redraw.mockRestore();
+  });
+
+  describe('no-op updates', () => {
+    it('skips a partial that changes nothing', async () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+      const before = store.getState();
+
+      store.set({ count: 0, label: 'clicks' });
+      await flush();
+
+      expect(store.getState()).toBe(before);
+      expect(listener).not.toHaveBeenCalled();
+      expect(redraw).not.toHaveBeenCalled();
+    });
+
+    it('skips a producer that changes nothing', async () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.touch();
+      await flush();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(redraw).not.toHaveBeenCalled();
+    });
+
+    it('skips a batch that ends where it started', async () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.batch(() => {
+        store.set({ count: 1 });
+        store.set({ count: 0 });
+      });
+      await flush();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(redraw).not.toHaveBeenCalled();
+    });
+
+    it('skips createStore updates that change nothing', async () => {
+      const store = createStore({ count: 0 });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.set({ count: 0 });
+      store.update(['count'], 0);
+      store.reset();
+      await flush();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(redraw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redraw coalescing', () => {
+    it('redraws once in a microtask for several updates', async () => {
+      const store = new CounterStore();
+
+      store.increment();
+      store.increment();
+      store.set({ label: 'taps' });
+
+      expect(redraw).not.toHaveBeenCalled();
+      await flush();
+      expect(redraw).toHaveBeenCalledTimes(1);
+    });
+
+    it('redraws once for updates across stores', async () => {
+      const counter = new CounterStore();
+      const settings = createStore({ theme: 'dark' });
+
+      counter.increment();
+      settings.set({ theme: 'light' });
+      await flush();
+
+      expect(redraw).toHaveBeenCalledTimes(1);
+    });
+
+    it('redraws again for updates after the redraw', async () => {
+      const store = new CounterStore();
+
+      store.increment();
+      await flush();
+      store.increment();
+      await flush();
+
+      expect(redraw).toHaveBeenCalledTimes(2);
+    });
+
+    it('notifies subscribers synchronously, before the redraw', () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.increment();
+
+      expect(listener).toHaveBeenCalledWith({ count: 1, label: 'clicks' }, { count: 0, label: 'clicks' });
+    });
+
+    it('notifies without redrawing for silent updates', async () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.set({ count: 5 }, { silent: true });
+      await flush();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(redraw).not.toHaveBeenCalled();
+    });
+
+    it('notifies once for a batch, with the state from before it', async () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.batch(() => {
+        store.increment();
+        store.increment();
+        expect(store.getState().count).toBe(2);
+      });
+      await flush();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ count: 2, label: 'clicks' }, { count: 0, label: 'clicks' });
+      expect(redraw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('select', () => {
+    it('calls the listener only when the selected slice changes', () => {
+      const store = new CounterStore();
+      const listener = vi.fn();
+      store.select(state => state.count, listener);
+
+      store.set({ label: 'taps' });
+      store.increment();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1, 0);
+    });
+
+    it('keeps notifying the others when a listener throws', () => {
+      const store = new CounterStore();
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const listener = vi.fn();
+      store.subscribe(() => {
+        throw new Error('broken');
+      });
+      store.subscribe(listener);
+
+      store.increment();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+});
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('Store actions', () => {
+  class SearchStore extends Store<{ results: string[] }> {
+    readonly requests: { query: string; signal: AbortSignal; response: ReturnType<typeof deferred<string[]>> }[] = [];
+
+    constructor() {
+      super({ results: [] });
+    }
+
+    // Rejects once aborted, like fetch
+    private fetchResults(query: string, signal: AbortSignal): Promise<string[]> {
+      const response = deferred<string[]>();
+      signal.addEventListener('abort', () => response.reject(signal.reason));
+      this.requests.push({ query, signal, response });
+      return response.promise;
+    }
+
+    readonly search = this.action('search', async (signal, query: string) => {
+      const results = await this.fetchResults(query, signal);
+      this.setState({ results });
+      return results;
+    });
+
+    readonly save = this.action('save', async (signal, query: string) => {
+      await this.fetchResults(query, signal);
+    }, { takeLatest: false });
+
+    // Runs `request` without handing it the signal
+    readonly load = this.action('load', (_signal, request: () => Promise<string>) => request());
+
+    reset(): void {
+      this.setState({ results: [] });
+    }
+  }
+
+  let store: SearchStore;
+
+  beforeEach(() => {
+    vi.spyOn(m, 'redraw').mockImplementation(() => {});
+    store = new SearchStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is pending while it runs', async () => {
+    const search = store.search('ada');
+    expect(store.isPending('search')).toBe(true);
+    expect(store.isPending()).toBe(true);
+    expect(store.isPending('save')).toBe(false);
+
+    store.requests[0].response.resolve(['Ada']);
+
+    await expect(search).resolves.toEqual(['Ada']);
+    expect(store.isPending('search')).toBe(false);
+    expect(store.isPending()).toBe(false);
+  });
+
+  it('aborts the running call when called again', async () => {
+    const first = store.search('a');
+    const second = store.search('ad');
+
+    expect(store.requests[0].signal.aborted).toBe(true);
+    expect(store.requests[1].signal.aborted).toBe(false);
+
+    store.requests[1].response.resolve(['Ada']);
+
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).resolves.toEqual(['Ada']);
+    expect(store.getState().results).toEqual(['Ada']);
+    expect(store.actionStatus('search')).toEqual({ pending: false, error: null });
+  });
+
+  it('drops the result of a superseded call that ignored its signal', async () => {
+    const stale = deferred<string>();
+
+    const first = store.load(() => stale.promise);
+    await expect(store.load(async () => 'latest')).resolves.toBe('latest');
+    stale.resolve('stale');
+
+    await expect(first).resolves.toBeUndefined();
+    expect(store.isPending('load')).toBe(false);
+  });
+
+  it('stays pending until the latest call settles', async () => {
+    const first = store.search('a');
+    const second = store.search('ad');
+
+    await first;
+    expect(store.isPending('search')).toBe(true);
+
+    store.requests[1].response.resolve(['Ada']);
+    await second;
+    expect(store.isPending('search')).toBe(false);
+  });
+
+  it('keeps concurrent calls running without takeLatest', async () => {
+    const first = store.save('a');
+    const second = store.save('b');
+
+    expect(store.requests[0].signal.aborted).toBe(false);
+    store.requests[0].response.resolve([]);
+    await first;
+    expect(store.isPending('save')).toBe(true);
+
+    store.requests[1].response.resolve([]);
+    await second;
+    expect(store.isPending('save')).toBe(false);
+  });
+
+  it('records the error and resolves with undefined when the call fails', async () => {
+    const search = store.search('ada');
+    store.requests[0].response.reject(new Error('offline'));
+
+    await expect(search).resolves.toBeUndefined();
+    expect(store.actionStatus('search')).toEqual({ pending: false, error: new Error('offline') });
+  });
+
+  it('clears the previous error on the next call', async () => {
+    const failed = store.search('ada');
+    store.requests[0].response.reject(new Error('offline'));
+    await failed;
+
+    store.search('ada');
+
+    expect(store.actionStatus('search')).toEqual({ pending: true, error: null });
+  });
+
+  it('reports unknown actions as idle', () => {
+    expect(store.actionStatus('missing')).toEqual({ pending: false, error: null });
+    expect(store.isPending('missing')).toBe(false);
+  });
+});
+
+// Vitest keeps import.meta.env.DEV in process.env, where '' reads as false
+describe('state freezing', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  async function createFreshStore() {
+    vi.resetModules();
+    const { createStore: create } = await import('../base.store');
+    return create({ user: { name: 'Ada' } });
+  }
+
+  it('freezes state in development', async () => {
+    vi.stubEnv('DEV', '1');
+
+    const store = await createFreshStore();
+
+    expect(Object.isFrozen(store.get().user)).toBe(true);
+  });
+
+  it('leaves state unfrozen in production builds', async () => {
+    vi.stubEnv('DEV', '');
+
+    const store = await createFreshStore();
+
+    expect(Object.isFrozen(store.get().user)).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Store, createStore } from '../base.store';
+import { computed } from '../computed';
+
+interface TodoState {
+  todos: { title: string; done: boolean }[];
+  filter: 'all' | 'done';
+  draft: string;
+}
+
+class TodoStore extends Store<TodoState> {
+  constructor() {
+    super({ todos: [{ title: 'write tests', done: false }], filter: 'all', draft: '' });
+  }
+
+  readonly visible = computed(this, state =>
+    state.filter === 'done' ? state.todos.filter(todo => todo.done) : state.todos
+  );
+
+  setDraft(draft: string): void {
+    this.setState({ draft });
+  }
+
+  complete(index: number): void {
+    this.setState(draft => {
+      draft.todos[index].done = true;
+    });
+  }
+
+  reset(): void {
+    this.setState({ todos: [], filter: 'all', draft: '' });
+  }
+}
+
+describe('computed', () => {
+  it('derives once until the state changes', () => {
+    const store = createStore({ count: 2 });
+    const derive = vi.fn((state: { count: number }) => ({ doubled: state.count * 2 }));
+    const doubled = computed(store, derive);
+
+    const first = doubled();
+
+    expect(first).toEqual({ doubled: 4 });
+    expect(doubled()).toBe(first);
+    expect(derive).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes when a key it read changes', () => {
+    const store = createStore({ count: 2 });
+    const doubled = computed(store, state => state.count * 2);
+    doubled();
+
+    store.set({ count: 5 });
+
+    expect(doubled()).toBe(10);
+  });
+
+  it('keeps the cached value when only other keys change', () => {
+    const store = createStore({ count: 2, label: 'a' });
+    const derive = vi.fn((state: { count: number }) => state.count * 2);
+    const doubled = computed(store, derive);
+    doubled();
+
+    store.set({ label: 'b' });
+    doubled();
+
+    expect(derive).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks only the keys read on the latest run', () => {
+    const store = createStore({ useFallback: true, fallback: 'none', value: 'x' });
+    const derive = vi.fn((state: { useFallback: boolean; fallback: string; value: string }) =>
+      state.useFallback ? state.fallback : state.value
+    );
+    const shown = computed(store, derive);
+    shown();
+
+    store.set({ value: 'y' });
+    expect(shown()).toBe('none');
+    expect(derive).toHaveBeenCalledTimes(1);
+
+    store.set({ useFallback: false });
+    expect(shown()).toBe('y');
+    store.set({ fallback: 'other' });
+    shown();
+    expect(derive).toHaveBeenCalledTimes(2);
+  });
+
+  it('recomputes on any change once the derivation enumerated the state', () => {
+    const store = createStore({ a: 1, b: 2 });
+    const derive = vi.fn((state: Record<string, number>) => Object.keys(state).length);
+    const size = computed(store, derive);
+    size();
+
+    store.set({ b: 3 });
+    size();
+
+    expect(derive).toHaveBeenCalledTimes(2);
+  });
+
+  it('combines several stores', () => {
+    const cart = createStore({ items: 3 });
+    const prices = createStore({ unit: 10, currency: 'EUR' });
+    const derive = vi.fn((c: { items: number }, p: { unit: number }) => c.items * p.unit);
+    const total = computed([cart, prices], derive);
+
+    expect(total()).toBe(30);
+    prices.set({ currency: 'USD' });
+    expect(total()).toBe(30);
+    expect(derive).toHaveBeenCalledTimes(1);
+
+    cart.set({ items: 4 });
+    expect(total()).toBe(40);
+  });
+
+  it('works as a memoized getter on class stores', () => {
+    const store = new TodoStore();
+    const visible = store.visible();
+
+    store.setDraft('next');
+    expect(store.visible()).toBe(visible);
+
+    store.complete(0);
+    expect(store.visible()).not.toBe(visible);
+    expect(store.visible()[0].done).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Store, createStore } from '../base.store';
+import { enableDevtools, forgetStore, type Devtools } from '../devtools';
+
+class CounterStore extends Store<{ count: number }> {
+  constructor() {
+    super({ count: 0 });
+  }
+
+  increment(): void {
+    this.setState(draft => {
+      draft.count++;
+    });
+  }
+
+  reset(): void {
+    this.setState({ count: 0 }, { action: 'reset counter' });
+  }
+}
+
+describe('enableDevtools', () => {
+  let devtools: Devtools | null = null;
+
+  afterEach(() => {
+    devtools?.disconnect();
+    devtools = null;
+    delete window.__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('logs each update with its action, states and timing', () => {
+    devtools = enableDevtools({ extension: false });
+    const counter = new CounterStore();
+
+    counter.increment();
+    counter.reset();
+
+    expect(devtools.log).toHaveLength(2);
+    expect(devtools.log[0]).toMatchObject({
+      storeName: 'CounterStore',
+      action: 'CounterStore.increment',
+      prevState: { count: 0 },
+      state: { count: 1 }
+    });
+    expect(devtools.log[0].duration).toBeGreaterThanOrEqual(0);
+    expect(devtools.log[1].action).toBe('reset counter');
+  });
+
+  it('tells subscribers about new entries', () => {
+    devtools = enableDevtools({ extension: false });
+    const listener = vi.fn();
+    devtools.subscribe(listener);
+
+    createStore({ on: false }, { name: 'toggle' }).set({ on: true });
+
+    expect(listener).toHaveBeenCalledWith(devtools.log);
+  });
+
+  describe('time travel', () => {
+    it('puts every store back in the state after the chosen entry', () => {
+      devtools = enableDevtools({ extension: false });
+      const counter = new CounterStore();
+      const settings = createStore({ theme: 'light' }, { name: 'settings' });
+
+      counter.increment();
+      settings.set({ theme: 'dark' });
+      counter.increment();
+
+      devtools.jumpTo(0);
+      expect(counter.getState()).toEqual({ count: 1 });
+      expect(settings.get()).toEqual({ theme: 'light' });
+
+      devtools.jumpTo(2);
+      expect(counter.getState()).toEqual({ count: 2 });
+      expect(settings.get()).toEqual({ theme: 'dark' });
+    });
+
+    it('does not record the jumps themselves', () => {
+      devtools = enableDevtools({ extension: false });
+      const counter = new CounterStore();
+      counter.increment();
+      counter.increment();
+
+      devtools.jumpTo(0);
+
+      expect(devtools.log).toHaveLength(2);
+    });
+
+    it('jumps before the oldest entry kept once maxAge is reached', () => {
+      devtools = enableDevtools({ extension: false, maxAge: 2 });
+      const counter = new CounterStore();
+      counter.increment();
+      counter.increment();
+      counter.increment();
+
+      expect(devtools.log.map(entry => entry.state.count)).toEqual([2, 3]);
+      devtools.jumpTo(-1);
+      expect(counter.getState()).toEqual({ count: 1 });
+    });
+
+    it('jumps to the state before the cleared entries', () => {
+      devtools = enableDevtools({ extension: false });
+      const counter = new CounterStore();
+      counter.increment();
+      devtools.clear();
+      counter.increment();
+
+      devtools.jumpTo(-1);
+
+      expect(devtools.log).toHaveLength(1);
+      expect(counter.getState()).toEqual({ count: 1 });
+    });
+
+    it('keeps stores with the same name apart', () => {
+      devtools = enableDevtools({ extension: false });
+      const first = new CounterStore();
+      const second = new CounterStore();
+      first.increment();
+      second.increment();
+      second.increment();
+
+      devtools.jumpTo(0);
+
+      expect(devtools.log.map(entry => entry.storeName)).toEqual(['CounterStore', 'CounterStore (2)', 'CounterStore (2)']);
+      expect(first.getState()).toEqual({ count: 1 });
+      expect(second.getState()).toEqual({ count: 0 });
+    });
+  });
+
+  describe('forgetting stores', () => {
+    it('leaves a forgotten store alone when jumping', () => {
+      devtools = enableDevtools({ extension: false });
+      const counter = new CounterStore();
+      counter.increment();
+      counter.increment();
+
+      forgetStore(counter);
+      devtools.jumpTo(0);
+
+      expect(counter.getState()).toEqual({ count: 2 });
+    });
+
+    it('does not hand a forgotten store\'s name to a new one', () => {
+      devtools = enableDevtools({ extension: false });
+      const disposed = new CounterStore();
+      disposed.increment();
+      forgetStore(disposed);
+
+      const replacement = new CounterStore();
+      replacement.increment();
+      replacement.increment();
+      devtools.jumpTo(0);
+
+      expect(devtools.log.map(entry => entry.storeName)).toEqual(['CounterStore', 'CounterStore (2)', 'CounterStore (2)']);
+      expect(replacement.getState()).toEqual({ count: 0 });
+    });
+  });
+
+  describe('Redux DevTools extension', () => {
+    function installExtension() {
+      let dispatch!: (message: { type: string; payload?: { type: string }; state?: string }) => void;
+      const connection = {
+        init: vi.fn(),
+        send: vi.fn(),
+        subscribe: vi.fn((listener: typeof dispatch) => {
+          dispatch = listener;
+          return vi.fn();
+        })
+      };
+      window.__REDUX_DEVTOOLS_EXTENSION__ = { connect: vi.fn(() => connection) };
+      return { connection, dispatch: (message: Parameters<typeof dispatch>[0]) => dispatch(message) };
+    }
+
+    it('sends each update with the combined state', () => {
+      const { connection } = installExtension();
+      devtools = enableDevtools({ name: 'Test app' });
+      const counter = new CounterStore();
+
+      counter.increment();
+
+      expect(window.__REDUX_DEVTOOLS_EXTENSION__!.connect).toHaveBeenCalledWith({ name: 'Test app', maxAge: 50 });
+      expect(connection.send).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'CounterStore.increment', store: 'CounterStore' }),
+        { CounterStore: { count: 1 } }
+      );
+    });
+
+    it('applies states the extension jumps to', () => {
+      const { dispatch } = installExtension();
+      devtools = enableDevtools();
+      const counter = new CounterStore();
+      counter.increment();
+      counter.increment();
+
+      dispatch({
+        type: 'DISPATCH',
+        payload: { type: 'JUMP_TO_STATE' },
+        state: JSON.stringify({ CounterStore: { count: 1 } })
+      });
+
+      expect(counter.getState()).toEqual({ count: 1 });
+      expect(devtools.log).toHaveLength(2);
+    });
+
+    it('stops listening to the extension on disconnect', () => {
+      const { connection } = installExtension();
+      devtools = enableDevtools();
+      const unsubscribe = connection.subscribe.mock.results[0].value;
+
+      devtools.disconnect();
+      new CounterStore().increment();
+
+      expect(unsubscribe).toHaveBeenCalled();
+      expect(connection.send).not.toHaveBeenCalled();
+    });
+  });
+
+  it('stops recording once disconnected', () => {
+    devtools = enableDevtools({ extension: false });
+    devtools.disconnect();
+
+    new CounterStore().increment();
+
+    expect(devtools.log).toHaveLength(0);
+  });
+
+  it('replaces the previous instance when enabled again', () => {
+    const first = enableDevtools({ extension: false });
+    devtools = enableDevtools({ extension: false });
+
+    new CounterStore().increment();
+
+    expect(first.log).toHaveLength(0);
+    expect(devtools.log).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { deepFreeze, produce, setIn } from '../draft';
+
+interface State {
+  user: { name: string; tags: string[] };
+  settings: { theme: string };
+  items: { id: number; done: boolean }[];
+  count?: number;
+}
+
+function createState(): State {
+  return {
+    user: { name: 'Ada', tags: ['admin'] },
+    settings: { theme: 'dark' },
+    items: [
+      { id: 1, done: false },
+      { id: 2, done: false }
+    ]
+  };
+}
+
+describe('produce', () => {
+  it('copies only the objects the recipe changed', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.items[1].done = true;
+    });
+
+    expect(next).not.toBe(base);
+    expect(next.items).not.toBe(base.items);
+    expect(next.items[1]).toEqual({ id: 2, done: true });
+    expect(next.items[0]).toBe(base.items[0]);
+    expect(next.user).toBe(base.user);
+    expect(next.settings).toBe(base.settings);
+    expect(base.items[1].done).toBe(false);
+  });
+
+  it('returns the base state when nothing changed', () => {
+    const base = createState();
+
+    expect(produce(base, () => {})).toBe(base);
+    expect(produce(base, draft => {
+      draft.settings.theme = 'dark';
+    })).toBe(base);
+    expect(produce(base, () => ({ settings: base.settings }))).toBe(base);
+  });
+
+  it('merges a returned partial on top of the draft', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.user.name = 'Grace';
+      return { count: 1 };
+    });
+
+    expect(next.user.name).toBe('Grace');
+    expect(next.count).toBe(1);
+    expect(next.settings).toBe(base.settings);
+  });
+
+  it('supports array methods and deleting keys', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.user.tags.push('editor');
+      draft.items.splice(0, 1);
+      delete (draft as Partial<State>).count;
+      delete (draft.settings as Partial<State['settings']>).theme;
+    });
+
+    expect(next.user.tags).toEqual(['admin', 'editor']);
+    expect(next.items).toEqual([{ id: 2, done: false }]);
+    expect('theme' in next.settings).toBe(false);
+    expect(Array.isArray(next.items)).toBe(true);
+  });
+
+  it('drafts frozen state without breaking proxy invariants', () => {
+    const base = deepFreeze(createState());
+    const next = produce(base, draft => {
+      expect(Object.keys(draft.user)).toEqual(['name', 'tags']);
+      expect(draft.items.length).toBe(2);
+      expect(JSON.parse(JSON.stringify(draft.items))).toEqual(base.items);
+      draft.user.tags.push('editor');
+    });
+
+    expect(next.user.tags).toEqual(['admin', 'editor']);
+    expect(Object.isFrozen(base.user.tags)).toBe(true);
+  });
+
+  it('replaces drafts nested inside newly assigned values', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.items = [draft.items[1], { id: 3, done: false }];
+      draft.items[0].done = true;
+    });
+
+    expect(next.items).toEqual([
+      { id: 2, done: true },
+      { id: 3, done: false }
+    ]);
+    expect(next.items[0]).not.toBe(base.items[1]);
+    expect(base.items[1].done).toBe(false);
+    expect(() => JSON.stringify(next)).not.toThrow();
+  });
+
+  it('finalizes drafts returned in a partial', () => {
+    const base = createState();
+    const next = produce(base, draft => ({ settings: { ...draft.settings, theme: 'light' }, user: draft.user }));
+
+    expect(next.settings).toEqual({ theme: 'light' });
+    expect(next.user).toBe(base.user);
+  });
+
+  it('refuses to define properties on a draft', () => {
+    expect(() => produce(createState(), draft => {
+      Object.defineProperty(draft, 'extra', { value: 1 });
+    })).toThrow('Cannot define properties on a state draft');
+  });
+});
+
+describe('setIn', () => {
+  it('sets the value at a path', () => {
+    const base = createState();
+    const next = produce(base, draft => setIn(draft, ['items', 0, 'done'], true));
+
+    expect(next.items[0].done).toBe(true);
+    expect(next.items[1]).toBe(base.items[1]);
+  });
+
+  it('throws for an empty path', () => {
+    expect(() => produce(createState(), draft => setIn(draft, [], 1))).toThrow('the path is empty');
+  });
+
+  it('names the missing part of the path', () => {
+    expect(() => produce(createState(), draft => setIn(draft, ['profile', 'name'], 'x')))
+      .toThrow('Cannot update "profile.name": "profile" is undefined');
+  });
+});
+
+describe('deepFreeze', () => {
+  it('freezes nested objects and arrays', () => {
+    const state = deepFreeze(createState());
+
+    expect(Object.isFrozen(state)).toBe(true);
+    expect(Object.isFrozen(state.user.tags)).toBe(true);
+    expect(Object.isFrozen(state.items[0])).toBe(true);
+    expect(() => {
+      (state.items[0] as { done: boolean }).done = true;
+    }).toThrow(TypeError);
+  });
+
+  it('leaves class instances and primitives alone', () => {
+    const date = new Date();
+    const state = deepFreeze({ date, count: 1 });
+
+    expect(Object.isFrozen(state)).toBe(true);
+    expect(Object.isFrozen(date)).toBe(false);
+    expect(deepFreeze(5)).toBe(5);
+  });
+
+  it('keeps frozen state frozen after produce', () => {
+    const base = deepFreeze(createState());
+    const next = deepFreeze(produce(base, draft => {
+      draft.items[0].done = true;
+    }));
+
+    expect(Object.isFrozen(next.items[0])).toBe(true);
+    expect(next.items[1]).toBe(base.items[1]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { createStore } from '../base.store';
+import { createHistory } from '../history';
+
+interface EditorState {
+  text: string;
+  cursor: number;
+  saving: boolean;
+}
+
+function createEditor() {
+  return createStore<EditorState>({ text: '', cursor: 0, saving: false });
+}
+
+describe('createHistory', () => {
+  it('undoes and redoes each update', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    editor.set({ text: 'a' });
+    editor.set({ text: 'ab' });
+
+    history.undo();
+    expect(editor.get().text).toBe('a');
+    history.undo();
+    expect(editor.get().text).toBe('');
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(editor.get().text).toBe('ab');
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('does nothing when there is nothing to undo or redo', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    history.undo();
+    history.redo();
+
+    expect(editor.get().text).toBe('');
+  });
+
+  it('keeps only the most recent steps up to the limit', () => {
+    const editor = createEditor();
+    const history = createHistory(editor, { limit: 2 });
+
+    editor.set({ text: 'a' });
+    editor.set({ text: 'ab' });
+    editor.set({ text: 'abc' });
+    history.undo();
+    history.undo();
+
+    expect(editor.get().text).toBe('a');
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('can redo every undone step after reaching the limit', () => {
+    const editor = createEditor();
+    const history = createHistory(editor, { limit: 2 });
+
+    editor.set({ text: 'a' });
+    editor.set({ text: 'ab' });
+    editor.set({ text: 'abc' });
+    history.undo();
+    history.undo();
+    history.redo();
+    history.redo();
+
+    expect(editor.get().text).toBe('abc');
+    expect(history.canRedo).toBe(false);
+    history.undo();
+    history.undo();
+    expect(editor.get().text).toBe('a');
+  });
+
+  it('drops the redo steps when a new change is made', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    editor.set({ text: 'a' });
+    history.undo();
+    editor.set({ text: 'b' });
+
+    expect(history.canRedo).toBe(false);
+    history.undo();
+    expect(editor.get().text).toBe('');
+  });
+
+  it('records a transaction as one step', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    history.transaction(() => {
+      editor.set({ text: 'a' });
+      editor.set({ cursor: 1 });
+    });
+    history.undo();
+
+    expect(editor.get()).toEqual({ text: '', cursor: 0, saving: false });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('ignores excluded keys', () => {
+    const editor = createEditor();
+    const history = createHistory(editor, { exclude: ['saving'] });
+
+    editor.set({ text: 'a' });
+    editor.set({ saving: true });
+    history.undo();
+
+    expect(editor.get()).toEqual({ text: '', cursor: 0, saving: true });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('tracks only included keys', () => {
+    const editor = createEditor();
+    const history = createHistory(editor, { include: ['text'] });
+
+    editor.set({ cursor: 3 });
+
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('forgets recorded steps on clear', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    editor.set({ text: 'a' });
+    history.undo();
+    history.clear();
+
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('stops recording once stopped', () => {
+    const editor = createEditor();
+    const history = createHistory(editor);
+
+    history.stop();
+    editor.set({ text: 'a' });
+
+    expect(history.canUndo).toBe(false);
+  });
+});
@@ -1,21 +1,284 @@
 import m from 'mithril';
+import type {
+  ActionOptions,
+  ActionStatus,
+  EqualityFn,
+  ObservableStore,
+  SetStateOptions,
+  StoreEffect,
+  StoreListener
+} from '../types';
+import { deepFreeze, produce, setIn, type StatePath } from './draft';
+
+/**
+ * A partial to merge into the state, or a producer that mutates a draft of
+ * it (and may also return a partial to merge)
+ */
+export type StateUpdate<T> = Partial<T> | ((draft: T) => Partial<T> | void);
+
+// Declared as in `vite/client`, which apps built with Vite already include
+declare global {
+  interface ImportMetaEnv {
+    DEV: boolean;
+  }
+  interface ImportMeta {
+    readonly env: ImportMetaEnv;
+  }
+}
+
+// Vite sets import.meta.env.DEV, other bundlers replace process.env.NODE_ENV;
+// without either, assume production
+function isDevelopment(): boolean {
+  if (typeof import.meta.env?.DEV === 'boolean') {
+    return import.meta.env.DEV;
+  }
+  try {
+    return process.env.NODE_ENV !== 'production';
+  } catch {
+    return false;
+  }
+}
+
+let freezeState = isDevelopment();
+
+/**
+ * Freeze store state so accidental mutation of `getState()` results throws.
+ * On by default in development.
+ */
+export function setStateFreezing(enabled: boolean): void {
+  freezeState = enabled;
+}
+
+/**
+ * Apply `updates` to `state`; returns `state` itself when nothing changed
+ */
+function applyUpdate<T>(state: T, updates: StateUpdate<T>): T {
+  let next: T;
+  if (typeof updates === 'function') {
+    next = produce(state, updates);
+  } else {
+    next = hasChanges(state, updates) ? { ...state, ...updates } : state;
+  }
+  return freezeState ? deepFreeze(next) : next;
+}
+
+let redrawScheduled = false;
+
+/**
+ * Redraw once in a microtask, however many stores changed in the meantime
+ */
+function scheduleRedraw(): void {
+  if (redrawScheduled) return;
+  redrawScheduled = true;
+  queueMicrotask(() => {
+    redrawScheduled = false;
+    m.redraw();
+  });
+}
+
+/**
+ * A store update as seen by a `StoreInspector`
+ */
+export interface StoreUpdate {
+  store: Store<any> | SimpleStore<any>;
+  /** Class name for class stores, the `name` option for `createStore` */
+  storeName: string;
+  action: string;
+  prevState: any;
+  state: any;
+  /** When the update happened, from `Date.now()` */
+  timestamp: number;
+  /** Time spent applying the update and notifying subscribers, in ms */
+  duration: number;
+}
+
+export type StoreInspector = (update: StoreUpdate) => void;
+
+let inspector: StoreInspector | null = null;
+
+/**
+ * Observe every store update, e.g. for devtools. Pass null to stop.
+ */
+export function setStoreInspector(next: StoreInspector | null): void {
+  inspector = next;
+}
+
+/**
+ * Name of the method that called `setState` or `set`, e.g. "CounterStore.increment"
+ */
+function callerName(): string | undefined {
+  // Skip this function and the store method calling it
+  const frame = (new Error().stack ?? '').split('\n').filter(line => /^\s*at |@/.test(line))[2] ?? '';
+  const name = frame.match(/^\s*at (?:async )?([\w$.<>]+) /)?.[1] ?? frame.match(/^([\w$.<>]+)@/)?.[1];
+  return name && !name.startsWith('Object.') ? name : undefined;
+}
+
+/**
+ * True when applying `updates` would change at least one key of `state`
+ */
+function hasChanges<T>(state: T, updates: Partial<T>): boolean {
+  return Object.keys(updates).some(key => !Object.is(state[key as keyof T], updates[key as keyof T]));
+}
+
+function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return Object.keys(a).length === Object.keys(b).length && !hasChanges(a, b as Partial<T>);
+}
+
+/**
+ * Listeners, batching and redraw scheduling shared by class stores and `createStore`
+ */
+function createListeners<T>(getState: () => Readonly<T>) {
+  const listeners = new Set<StoreListener<T>>();
+  let batchDepth = 0;
+  // State before the first update of the current batch
+  let batchPrevState: { state: Readonly<T> } | null = null;
+  let batchRedraw = false;
+
+  const subscribe = (listener: StoreListener<T>): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const select = <S>(
+    selector: (state: Readonly<T>) => S,
+    listener: (selected: S, prevSelected: S) => void,
+    equalityFn: EqualityFn<S> = Object.is
+  ): (() => void) => {
+    let selected = selector(getState());
+    return subscribe(state => {
+      const next = selector(state);
+      if (equalityFn(selected, next)) return;
+      const prev = selected;
+      selected = next;
+      listener(next, prev);
+    });
+  };
+
+  // A throwing listener shouldn't stop the others or the redraw
+  const notify = (state: Readonly<T>, prevState: Readonly<T>): void => {
+    [...listeners].forEach(listener => {
+      try {
+        listener(state, prevState);
+      } catch (error) {
+        console.error('Store listener failed:', error);
+      }
+    });
+  };
+
+  /**
+   * Announce an update made to the state; `prevState` is the state before it
+   */
+  const commit = (prevState: Readonly<T>, { silent = false }: SetStateOptions = {}): void => {
+    if (batchDepth > 0) {
+      batchPrevState ??= { state: prevState };
+      batchRedraw ||= !silent;
+      return;
+    }
+    notify(getState(), prevState);
+    if (!silent) {
+      scheduleRedraw();
+    }
+  };
+
+  const batch = <R>(fn: () => R): R => {
+    batchDepth++;
+    try {
+      return fn();
+    } finally {
+      batchDepth--;
+      if (batchDepth === 0 && batchPrevState) {
+        const prevState = batchPrevState.state;
+        const redraw = batchRedraw;
+        batchPrevState = null;
+        batchRedraw = false;
+        if (!shallowEqual(getState(), prevState)) {
+          commit(prevState, { silent: !redraw });
+        }
+      }
+    }
+  };
+
+  const effect = <S>(
+    selector: (state: Readonly<T>) => S,
+    run: StoreEffect<S>,
+    equalityFn?: EqualityFn<S>
+  ): (() => void) => {
+    let cleanup: void | (() => void);
+    const unsubscribe = select(selector, (selected, prevSelected) => {
+      cleanup?.();
+      cleanup = run(selected, prevSelected);
+    }, equalityFn);
+
+    return () => {
+      unsubscribe();
+      cleanup?.();
+    };
+  };
+
+  return { subscribe, select, effect, commit, batch };
+}
+
+export interface CreateStoreOptions {
+  /** Name shown in devtools (default: 'store') */
+  name?: string;
+}
+
+/**
+ * Store created by `createStore`
+ */
+export interface SimpleStore<T> {
+  get(): Readonly<T>;
+  set(updates: StateUpdate<T>, options?: SetStateOptions): void;
+  update(path: StatePath, value: unknown, options?: SetStateOptions): void;
+  reset(options?: SetStateOptions): void;
+  batch<R>(fn: () => R): R;
+  subscribe(listener: StoreListener<T>): () => void;
+  select<S>(
+    selector: (state: Readonly<T>) => S,
+    listener: (selected: S, prevSelected: S) => void,
+    equalityFn?: EqualityFn<S>
+  ): () => void;
+  effect<S>(selector: (state: Readonly<T>) => S, run: StoreEffect<S>, equalityFn?: EqualityFn<S>): () => void;
+}
+
+type StateSetter<T> = (updates: StateUpdate<T>, options?: SetStateOptions) => void;
+
+// `setState` of each class store, which stays protected, for `storeHandle`
+const stateSetters = new WeakMap<Store<any>, StateSetter<any>>();
+
+// Status of a declared action and its running calls
+interface ActionRun extends ActionStatus {
+  controller: AbortController | null;
+  calls: number;
+}
 
 /**
  * Base Store class for managing global state in MARH applications
- * 
+ *
  * This provides a simple reactive state management pattern that integrates
  * seamlessly with Mithril's redraw system.
- * 
+ *
  * Usage:
  * 1. Extend this class for your specific stores
  * 2. Use setState() to update state and trigger re-renders
  * 3. Subscribe components to state changes by accessing store properties
+ * 4. Use subscribe() or select() to react to changes outside components
+ *
+ * Updates that don't change any value are ignored, and redraws are
+ * coalesced into one per microtask across all stores.
  */
-export abstract class Store<T = any> {
+export abstract class Store<T = any> implements ObservableStore<T> {
   protected state: T;
+  private readonly changes = createListeners<T>(() => this.state);
+  private readonly actions = new Map<string, ActionRun>();
 
   constructor(initialState: T) {
-    this.state = initialState;
+    this.state = freezeState ? deepFreeze(initialState) : initialState;
+    stateSetters.set(this, (updates, options) => this.setState(updates, options));
   }
 
   /**
@@ -26,20 +289,163 @@ export abstract class Store<T = any> {
   }
 
   /**
-   * Update state and trigger Mithril redraw
-   * 
-   * @param updates - Partial state updates or updater function
+   * Call `listener` with the new and previous state after every update
+   *
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: StoreListener<T>): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  /**
+   * Call `listener` only when the selected slice changes, compared with
+   * `equalityFn` (default: `Object.is`)
+   *
+   * @returns Unsubscribe function
+   */
+  public select<S>(
+    selector: (state: Readonly<T>) => S,
+    listener: (selected: S, prevSelected: S) => void,
+    equalityFn?: EqualityFn<S>
+  ): () => void {
+    return this.changes.select(selector, listener, equalityFn);
+  }
+
+  /**
+   * Run several updates, notifying subscribers and redrawing once at the end
+   */
+  public batch<R>(fn: () => R): R {
+    return this.changes.batch(fn);
+  }
+
+  /**
+   * Run `run` whenever the selected value changes. A function returned by
+   * `run` is called before the next run and when the effect is stopped.
+   *
+   * @returns Stops the effect
+   */
+  public effect<S>(
+    selector: (state: Readonly<T>) => S,
+    run: StoreEffect<S>,
+    equalityFn?: EqualityFn<S>
+  ): () => void {
+    return this.changes.effect(selector, run, equalityFn);
+  }
+
+  /**
+   * Pending and error status of the action declared as `name`
+   */
+  public actionStatus(name: string): ActionStatus {
+    const status = this.actions.get(name);
+    return { pending: status?.pending ?? false, error: status?.error ?? null };
+  }
+
+  /**
+   * Whether the action `name`, or any action when omitted, is running
    */
-  protected setState(updates: Partial<T> | ((prevState: T) => Partial<T>)): void {
-    if (typeof updates === 'function') {
-      const updatedState = updates(this.state);
-      this.state = { ...this.state, ...updatedState };
-    } else {
-      this.state = { ...this.state, ...updates };
+  public isPending(name?: string): boolean {
+    if (name !== undefined) {
+      return this.actions.get(name)?.pending ?? false;
     }
-    
-    // Trigger Mithril redraw to update all components
-    m.redraw();
+    return [...this.actions.values()].some(status => status.pending);
+  }
+
+  /**
+   * Declare an async action whose pending and error status is tracked under
+   * `name`. With `takeLatest` (the default) calling it again aborts the
+   * running call through its signal, and the superseded result is dropped.
+   *
+   * The returned function never rejects: it resolves with the result, or
+   * with undefined when the call failed or was superseded.
+   *
+   *   readonly loadUsers = this.action('loadUsers', async (signal, page: number) => {
+   *     const users = await api.getUsers(page, { signal });
+   *     this.setState({ users });
+   *   });
+   */
+  protected action<A extends unknown[], R>(
+    name: string,
+    run: (signal: AbortSignal, ...args: A) => Promise<R>,
+    options: ActionOptions = {}
+  ): (...args: A) => Promise<R | undefined> {
+    const { takeLatest = true } = options;
+
+    return async (...args: A) => {
+      let status = this.actions.get(name);
+      if (!status) {
+        status = { pending: false, error: null, controller: null, calls: 0 };
+        this.actions.set(name, status);
+      }
+      if (takeLatest && status.controller) {
+        status.controller.abort();
+        status.calls = 0;
+      }
+
+      const controller = new AbortController();
+      status.controller = controller;
+      status.calls++;
+      status.pending = true;
+      status.error = null;
+      scheduleRedraw();
+
+      let result: R | undefined;
+      let error: Error | null = null;
+      try {
+        result = await run(controller.signal, ...args);
+      } catch (caught) {
+        error = caught instanceof Error ? caught : new Error(String(caught));
+      }
+
+      // A newer call has taken over
+      if (controller.signal.aborted) return undefined;
+
+      status.calls--;
+      status.pending = status.calls > 0;
+      if (status.calls === 0) status.controller = null;
+      if (error) status.error = error;
+      scheduleRedraw();
+      return error ? undefined : result;
+    };
+  }
+
+  /**
+   * Update state, notify subscribers and schedule a Mithril redraw
+   *
+   * @param updates - Partial state updates, or a producer that mutates a draft:
+   *   `this.setState(draft => { draft.todos[i].done = true; })`
+   * @param options - `silent` skips the redraw
+   */
+  protected setState(updates: StateUpdate<T>, options?: SetStateOptions): void {
+    const inspected = inspector;
+    const action = inspected ? options?.action ?? callerName() ?? 'setState' : '';
+    const started = inspected ? performance.now() : 0;
+
+    const prevState = this.state;
+    const nextState = applyUpdate(prevState, updates);
+    if (nextState === prevState) return;
+
+    this.state = nextState;
+    this.changes.commit(prevState, options);
+
+    inspected?.({
+      store: this,
+      storeName: this.constructor.name,
+      action,
+      prevState,
+      state: this.state,
+      timestamp: Date.now(),
+      duration: performance.now() - started
+    });
+  }
+
+  /**
+   * Set a nested value, copying only the objects along `path`
+   *
+   * @example this.update(['users', 3, 'name'], 'Ada')
+   */
+  protected update(path: StatePath, value: unknown, options?: SetStateOptions): void {
+    const action = inspector ? options?.action ?? callerName() : undefined;
+    this.setState(draft => setIn(draft, path, value), { ...options, action });
   }
 
   /**
@@ -50,28 +456,108 @@ export abstract class Store<T = any> {
 
 /**
  * Simple observable store without classes (alternative pattern)
- * 
+ *
  * For simpler use cases where you don't need inheritance
  */
-export function createStore<T>(initialState: T) {
-  let state = initialState;
-  
-  return {
+export function createStore<T>(initialState: T, options: CreateStoreOptions = {}): SimpleStore<T> {
+  const { name = 'store' } = options;
+  let state = freezeState ? deepFreeze(initialState) : initialState;
+  const changes = createListeners<T>(() => state);
+
+  const commit = (next: T, action: string, started: number, setOptions?: SetStateOptions): void => {
+    const prevState = state;
+    state = next;
+    changes.commit(prevState, setOptions);
+
+    inspector?.({
+      store,
+      storeName: name,
+      action,
+      prevState,
+      state,
+      timestamp: Date.now(),
+      duration: performance.now() - started
+    });
+  };
+
+  const store: SimpleStore<T> = {
     get: (): Readonly<T> => state,
-    
-    set: (updates: Partial<T> | ((prevState: T) => Partial<T>)): void => {
-      if (typeof updates === 'function') {
-        const updatedState = updates(state);
-        state = { ...state, ...updatedState };
-      } else {
-        state = { ...state, ...updates };
-      }
-      m.redraw();
+
+    set: (updates: StateUpdate<T>, setOptions?: SetStateOptions): void => {
+      const action = inspector ? setOptions?.action ?? callerName() ?? `${name}.set` : '';
+      const started = inspector ? performance.now() : 0;
+
+      const nextState = applyUpdate(state, updates);
+      if (nextState === state) return;
+
+      commit(nextState, action, started, setOptions);
     },
-    
-    reset: (): void => {
-      state = initialState;
-      m.redraw();
-    }
+
+    update: (path: StatePath, value: unknown, setOptions?: SetStateOptions): void => {
+      const action = inspector ? setOptions?.action ?? callerName() ?? `${name}.update` : '';
+      const started = inspector ? performance.now() : 0;
+
+      const nextState = applyUpdate(state, draft => setIn(draft, path, value));
+      if (nextState === state) return;
+
+      commit(nextState, action, started, setOptions);
+    },
+
+    reset: (setOptions?: SetStateOptions): void => {
+      if (shallowEqual(state, initialState)) return;
+
+      commit(initialState, setOptions?.action ?? `${name}.reset`, inspector ? performance.now() : 0, setOptions);
+    },
+
+    batch: changes.batch,
+
+    subscribe: changes.subscribe,
+
+    select: changes.select,
+
+    effect: changes.effect
+  };
+
+  return store;
+}
+
+/**
+ * Copy `state` keeping only the keys allowed by `include` and `exclude`
+ */
+export function pickState<T>(state: Partial<T>, include?: (keyof T)[], exclude?: (keyof T)[]): Partial<T> {
+  const picked: Partial<T> = {};
+  (Object.keys(state) as (keyof T)[]).forEach(name => {
+    if (include && !include.includes(name)) return;
+    if (exclude?.includes(name)) return;
+    picked[name] = state[name];
+  });
+  return picked;
+}
+
+/**
+ * Common view of class stores and `createStore` stores, used by store
+ * add-ons such as `persist` that need to update state from outside
+ */
+export interface StoreHandle<T> {
+  getState(): Readonly<T>;
+  setState(updates: StateUpdate<T>, options?: SetStateOptions): void;
+  batch<R>(fn: () => R): R;
+  subscribe(listener: StoreListener<T>): () => void;
+}
+
+export function storeHandle<T>(store: Store<T> | SimpleStore<T>): StoreHandle<T> {
+  if (store instanceof Store) {
+    return {
+      getState: () => store.getState(),
+      setState: stateSetters.get(store)!,
+      batch: fn => store.batch(fn),
+      subscribe: listener => store.subscribe(listener)
+    };
+  }
+  return {
+    getState: store.get,
+    setState: store.set,
+    batch: store.batch,
+    subscribe: store.subscribe
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { storeHandle, type SimpleStore, type Store } from './base.store';
+
+type AnyStore = Store<any> | SimpleStore<any>;
+
+type StateOf<S> = S extends SimpleStore<infer T> ? T : S extends Store<infer T> ? T : never;
+
+type StatesOf<S extends readonly AnyStore[]> = { [K in keyof S]: Readonly<StateOf<S[K]>> };
+
+/**
+ * Memoized derived value; call it to read the current result
+ */
+export type Computed<R> = () => R;
+
+// Keys a derivation read from one store's state; null when it enumerated the whole state
+interface Dependencies {
+  state: object;
+  keys: Set<PropertyKey> | null;
+}
+
+// Proxy that records which top-level keys are read
+function track(state: object, deps: Dependencies): object {
+  return new Proxy(state, {
+    get(target, key, receiver) {
+      deps.keys?.add(key);
+      return Reflect.get(target, key, receiver);
+    },
+    has(target, key) {
+      deps.keys?.add(key);
+      return Reflect.has(target, key);
+    },
+    ownKeys(target) {
+      deps.keys = null;
+      return Reflect.ownKeys(target);
+    }
+  });
+}
+
+function isStale(deps: Dependencies, state: object): boolean {
+  if (deps.state === state) return false;
+  if (!deps.keys) return true;
+  return [...deps.keys].some(key =>
+    !Object.is(Reflect.get(deps.state, key), Reflect.get(state, key))
+  );
+}
+
+/**
+ * Derive a value from one or more stores and cache it until a state key it
+ * read changes. Dependencies are tracked on each run, so derivations with
+ * branches only depend on the keys they actually used.
+ *
+ *   private readonly activeTasks = computed(this, state => state.tasks.filter(isActive));
+ *   const cartTotal = computed([cartStore, priceStore], (cart, prices) => total(cart, prices));
+ */
+export function computed<T, R>(store: Store<T> | SimpleStore<T>, derive: (state: Readonly<T>) => R): Computed<R>;
+export function computed<S extends readonly AnyStore[], R>(
+  stores: readonly [...S],
+  derive: (...states: StatesOf<S>) => R
+): Computed<R>;
+export function computed(stores: AnyStore | readonly AnyStore[], derive: (...states: any[]) => any): Computed<any> {
+  const handles = (Array.isArray(stores) ? stores : [stores]).map(store => storeHandle(store));
+  let dependencies: Dependencies[] | null = null;
+  let value: any;
+
+  return () => {
+    const states = handles.map(handle => handle.getState() as object);
+    if (dependencies && !states.some((state, i) => isStale(dependencies![i], state))) {
+      return value;
+    }
+
+    const deps = states.map(state => ({ state, keys: new Set<PropertyKey>() }));
+    value = derive(...states.map((state, i) => track(state, deps[i])));
+    dependencies = deps;
+    return value;
+  };
+}
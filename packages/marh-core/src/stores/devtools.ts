@@ -0,0 +1,219 @@
+import { setStoreInspector, storeHandle, type SimpleStore, type Store, type StoreUpdate } from './base.store';
+
+// Subset of the Redux DevTools extension API (https://github.com/reduxjs/redux-devtools)
+interface ReduxDevtoolsMessage {
+  type: string;
+  payload?: { type: string };
+  state?: string;
+}
+
+interface ReduxDevtoolsConnection {
+  init(state: unknown): void;
+  send(action: { type: string; [key: string]: unknown }, state: unknown): void;
+  subscribe(listener: (message: ReduxDevtoolsMessage) => void): (() => void) | void;
+  unsubscribe?(): void;
+}
+
+declare global {
+  interface Window {
+    __REDUX_DEVTOOLS_EXTENSION__?: {
+      connect(options: { name?: string; maxAge?: number }): ReduxDevtoolsConnection;
+    };
+  }
+}
+
+type AnyStore = Store<any> | SimpleStore<any>;
+
+export interface DevtoolsOptions {
+  /** Instance name shown in the Redux DevTools extension (default: document title) */
+  name?: string;
+  /** Most updates kept in the log (default: 50) */
+  maxAge?: number;
+  /** Connect to the Redux DevTools extension when it's installed (default: true) */
+  extension?: boolean;
+}
+
+export interface Devtools {
+  /** Recorded updates, oldest first */
+  readonly log: readonly StoreUpdate[];
+  /** Called whenever the log changes, e.g. to render an in-app panel */
+  subscribe(listener: (log: readonly StoreUpdate[]) => void): () => void;
+  /** Put every store back in the state it had right after `log[index]` */
+  jumpTo(index: number): void;
+  clear(): void;
+  /** Stop tracking `store`, e.g. once it's disposed, so jumps leave it alone */
+  forget(store: AnyStore): void;
+  disconnect(): void;
+}
+
+let active: Devtools | null = null;
+
+/**
+ * Record every `setState` and `createStore().set` call with its action name,
+ * before and after state and timing, and allow jumping back to earlier states.
+ * Forwards updates to the Redux DevTools extension when it's installed, whose
+ * jump and rollback commands are applied to the stores. Enable it in
+ * development only:
+ *
+ *   if (import.meta.env.DEV) enableDevtools();
+ *
+ * Calling it again replaces the previous instance.
+ */
+export function enableDevtools(options: DevtoolsOptions = {}): Devtools {
+  const { maxAge = 50, extension = true } = options;
+
+  active?.disconnect();
+
+  const log: StoreUpdate[] = [];
+  const listeners = new Set<(log: readonly StoreUpdate[]) => void>();
+  const names = new WeakMap<AnyStore, string>();
+  const stores = new Map<string, AnyStore>();
+  // State of each store just before the oldest logged update
+  const baseStates = new Map<string, any>();
+  // Names of forgotten stores stay taken so their entries never match a new store
+  const retired = new Set<string>();
+  let travelling = false;
+
+  const notify = () => listeners.forEach(listener => listener(log));
+
+  // Store names are unique so they can key the combined state
+  const nameOf = (update: StoreUpdate): string => {
+    let name = names.get(update.store);
+    if (!name) {
+      name = update.storeName;
+      for (let i = 2; stores.has(name) || retired.has(name); i++) {
+        name = `${update.storeName} (${i})`;
+      }
+      names.set(update.store, name);
+      stores.set(name, update.store);
+      baseStates.set(name, update.prevState);
+    }
+    return name;
+  };
+
+  const currentStates = (): Record<string, any> => {
+    const states: Record<string, any> = {};
+    stores.forEach((store, name) => {
+      states[name] = storeHandle(store).getState();
+    });
+    return states;
+  };
+
+  const apply = (states: Record<string, any>): void => {
+    travelling = true;
+    try {
+      Object.entries(states).forEach(([name, state]) => {
+        const store = stores.get(name);
+        if (store) {
+          storeHandle(store).setState(state);
+        }
+      });
+    } finally {
+      travelling = false;
+    }
+  };
+
+  const connection = extension && typeof window !== 'undefined'
+    ? window.__REDUX_DEVTOOLS_EXTENSION__?.connect({
+        name: options.name ?? (typeof document !== 'undefined' && document.title ? document.title : 'MARH'),
+        maxAge
+      })
+    : undefined;
+
+  const unsubscribeExtension = connection?.subscribe(message => {
+    if (message.type !== 'DISPATCH' || !message.payload) return;
+
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state) apply(JSON.parse(message.state));
+        break;
+      case 'ROLLBACK':
+        if (message.state) apply(JSON.parse(message.state));
+        connection.init(currentStates());
+        break;
+      case 'COMMIT':
+        connection.init(currentStates());
+        break;
+    }
+  });
+
+  connection?.init({});
+
+  setStoreInspector(update => {
+    if (travelling) return;
+
+    const entry = { ...update, storeName: nameOf(update) };
+    log.push(entry);
+    if (log.length > maxAge) {
+      const dropped = log.shift()!;
+      baseStates.set(dropped.storeName, dropped.state);
+    }
+
+    connection?.send(
+      { type: entry.action, store: entry.storeName, duration: entry.duration },
+      currentStates()
+    );
+    notify();
+  });
+
+  const devtools: Devtools = {
+    log,
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    jumpTo: index => {
+      const states: Record<string, any> = {};
+      baseStates.forEach((state, name) => {
+        states[name] = state;
+      });
+      log.slice(0, index + 1).forEach(entry => {
+        states[entry.storeName] = entry.state;
+      });
+      apply(states);
+    },
+
+    forget: store => {
+      const name = names.get(store);
+      if (!name) return;
+      names.delete(store);
+      stores.delete(name);
+      baseStates.delete(name);
+      retired.add(name);
+    },
+
+    clear: () => {
+      log.forEach(entry => baseStates.set(entry.storeName, entry.state));
+      log.length = 0;
+      connection?.init(currentStates());
+      notify();
+    },
+
+    disconnect: () => {
+      if (active !== devtools) return;
+      active = null;
+      setStoreInspector(null);
+      if (typeof unsubscribeExtension === 'function') {
+        unsubscribeExtension();
+      } else {
+        connection?.unsubscribe?.();
+      }
+    }
+  };
+
+  active = devtools;
+  return devtools;
+}
+
+/**
+ * Stop tracking `store` in the enabled devtools, if any. Call it when
+ * disposing a store so time travel no longer updates it.
+ */
+export function forgetStore(store: AnyStore): void {
+  active?.forget(store);
+}
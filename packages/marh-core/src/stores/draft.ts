@@ -0,0 +1,181 @@
+/**
+ * Copy-on-write drafts for store updates, in the spirit of immer: the
+ * recipe mutates a proxy of the state, and only the objects and arrays it
+ * touched are copied. Everything else is shared with the previous state.
+ */
+
+const DRAFT = Symbol('draft');
+
+interface DraftState {
+  base: any;
+  copy: any | null;
+  parent: DraftState | null;
+  proxy: any;
+  children: Map<PropertyKey, DraftState>;
+  finalized?: any;
+}
+
+export type StatePath = readonly (string | number)[];
+
+function isDraftable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function draftOf(value: unknown): DraftState | undefined {
+  return isDraftable(value) ? (value as any)[DRAFT] : undefined;
+}
+
+function latest(draft: DraftState): any {
+  return draft.copy ?? draft.base;
+}
+
+function markChanged(draft: DraftState): void {
+  if (draft.copy) return;
+  draft.copy = Array.isArray(draft.base) ? [...draft.base] : { ...draft.base };
+  if (draft.parent) markChanged(draft.parent);
+}
+
+function createDraft(base: any, parent: DraftState | null): DraftState {
+  const draft: DraftState = { base, copy: null, parent, proxy: null, children: new Map() };
+
+  // The proxy target is a blank stand-in so frozen bases don't trip proxy invariants
+  draft.proxy = new Proxy(Array.isArray(base) ? [] : {}, {
+    get(_target, key) {
+      if (key === DRAFT) return draft;
+      const value = Reflect.get(latest(draft), key);
+      if (!isDraftable(value) || draftOf(value)) return value;
+
+      // Only values from the base state are drafted; newly assigned ones belong to the recipe
+      const child = draft.children.get(key);
+      if (child && child.base === value) return child.proxy;
+      if (value !== Reflect.get(draft.base, key)) return value;
+
+      const created = createDraft(value, draft);
+      draft.children.set(key, created);
+      return created.proxy;
+    },
+    set(_target, key, value) {
+      const current = latest(draft);
+      if (Object.is(current[key], value) && (value !== undefined || key in current)) return true;
+      markChanged(draft);
+      draft.copy[key] = value;
+      return true;
+    },
+    deleteProperty(_target, key) {
+      if (!(key in latest(draft))) return true;
+      markChanged(draft);
+      delete draft.copy[key];
+      return true;
+    },
+    has(_target, key) {
+      return key in latest(draft);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(latest(draft));
+    },
+    getOwnPropertyDescriptor(_target, key) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(latest(draft), key);
+      if (!descriptor) return undefined;
+      // Array `length` must match the stand-in target's non-configurable property
+      return key === 'length' && Array.isArray(base)
+        ? { ...descriptor, writable: true, configurable: false }
+        : { ...descriptor, writable: true, configurable: true };
+    },
+    defineProperty() {
+      throw new Error('Cannot define properties on a state draft');
+    },
+    getPrototypeOf() {
+      return Object.getPrototypeOf(base);
+    }
+  });
+
+  return draft;
+}
+
+// Replace drafts left anywhere in `value` with their final state
+function finalizeValue(value: any, seen = new Set<object>()): any {
+  const draft = draftOf(value);
+  if (draft) return finalize(draft, seen);
+  if (!isDraftable(value) || Object.isFrozen(value) || seen.has(value)) return value;
+
+  seen.add(value);
+  Object.keys(value).forEach(key => {
+    const item = (value as any)[key];
+    const final = finalizeValue(item, seen);
+    if (final !== item) (value as any)[key] = final;
+  });
+  return value;
+}
+
+function finalize(draft: DraftState, seen: Set<object>): any {
+  if (!draft.copy) return draft.base;
+  if (draft.finalized) return draft.finalized;
+
+  draft.finalized = draft.copy;
+  Object.keys(draft.copy).forEach(key => {
+    const value = draft.copy[key];
+    const child = draft.children.get(key);
+    if (child && value === child.base) {
+      draft.copy[key] = finalize(child, seen);
+    } else if (value !== Reflect.get(draft.base, key)) {
+      // Newly assigned values may still hold drafts
+      draft.copy[key] = finalizeValue(value, seen);
+    }
+  });
+  return draft.copy;
+}
+
+/**
+ * Run `recipe` against a draft of `base` and return the next state. A
+ * partial returned by the recipe is merged on top, like a plain setState.
+ * Returns `base` itself when nothing changed.
+ */
+export function produce<T>(base: T, recipe: (draft: T) => Partial<T> | void): T {
+  const draft = createDraft(base, null);
+  const returned = recipe(draft.proxy);
+  const produced = finalize(draft, new Set());
+
+  if (returned === undefined || returned === draft.proxy) {
+    return produced;
+  }
+
+  const seen = new Set<object>();
+  const updates: any = {};
+  Object.entries(returned as object).forEach(([key, value]) => {
+    updates[key] = value === (base as any)[key] ? value : finalizeValue(value, seen);
+  });
+  const changed = Object.keys(updates).some(key => !Object.is(produced[key], updates[key]));
+  return changed ? { ...produced, ...updates } : produced;
+}
+
+/**
+ * Set the value at `path` inside a draft
+ */
+export function setIn(draft: any, path: StatePath, value: unknown): void {
+  if (path.length === 0) {
+    throw new Error('Cannot update state: the path is empty');
+  }
+
+  let target = draft;
+  path.slice(0, -1).forEach((key, i) => {
+    target = target[key];
+    if (typeof target !== 'object' || target === null) {
+      throw new Error(`Cannot update "${path.join('.')}": "${path.slice(0, i + 1).join('.')}" is ${target}`);
+    }
+  });
+  target[path[path.length - 1]] = value;
+}
+
+/**
+ * Freeze `value` and every object and array inside it. Already frozen
+ * parts are skipped, so shared structure is only walked once.
+ */
+export function deepFreeze<T>(value: T): T {
+  if (!isDraftable(value) || Object.isFrozen(value)) return value;
+  Object.freeze(value);
+  Object.keys(value).forEach(key => deepFreeze((value as any)[key]));
+  return value;
+}
@@ -0,0 +1,98 @@
+import { pickState, storeHandle, type SimpleStore, type Store } from './base.store';
+
+export interface HistoryOptions<T> {
+  /** Most undo steps kept; older ones are dropped (default: 100) */
+  limit?: number;
+  /** Only track these keys */
+  include?: (keyof T)[];
+  /** Keys whose changes aren't recorded or undone, e.g. `isLoading` */
+  exclude?: (keyof T)[];
+}
+
+export interface StoreHistory {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  undo(): void;
+  redo(): void;
+  /** Run several updates as a single undo step */
+  transaction<R>(fn: () => R): R;
+  /** Forget all recorded steps */
+  clear(): void;
+  /** Stop recording changes */
+  stop(): void;
+}
+
+/**
+ * Record a store's changes so they can be undone and redone
+ *
+ * Each update that changes a tracked key becomes one step. Updates made
+ * inside `transaction()` or `store.batch()` are recorded as a single step.
+ */
+export function createHistory<T>(store: Store<T> | SimpleStore<T>, options: HistoryOptions<T> = {}): StoreHistory {
+  const { limit = 100, include, exclude } = options;
+  const handle = storeHandle(store);
+  const pick = (state: Partial<T>): Partial<T> => pickState(state, include, exclude);
+
+  const past: Partial<T>[] = [];
+  let future: Partial<T>[] = [];
+  let applying = false;
+
+  const unsubscribe = handle.subscribe((state, prevState) => {
+    if (applying) return;
+
+    const current = pick(state);
+    const previous = pick(prevState);
+    const changed = (Object.keys({ ...current, ...previous }) as (keyof T)[])
+      .some(name => !Object.is(current[name], previous[name]));
+    if (!changed) return;
+
+    past.push(previous);
+    if (past.length > limit) {
+      past.shift();
+    }
+    future = [];
+  });
+
+  // Restore a recorded step without recording it again
+  const apply = (snapshot: Partial<T>): void => {
+    applying = true;
+    try {
+      handle.setState(snapshot);
+    } finally {
+      applying = false;
+    }
+  };
+
+  return {
+    get canUndo() {
+      return past.length > 0;
+    },
+
+    get canRedo() {
+      return future.length > 0;
+    },
+
+    undo: () => {
+      const snapshot = past.pop();
+      if (!snapshot) return;
+      future.push(pick(handle.getState()));
+      apply(snapshot);
+    },
+
+    redo: () => {
+      const snapshot = future.pop();
+      if (!snapshot) return;
+      past.push(pick(handle.getState()));
+      apply(snapshot);
+    },
+
+    transaction: fn => handle.batch(fn),
+
+    clear: () => {
+      past.length = 0;
+      future = [];
+    },
+
+    stop: unsubscribe
+  };
+}
@@ -0,0 +1,170 @@
+import { getStorage } from '../services/storage.factory';
+import type { StorageService } from '../services/storage';
+import { pickState, storeHandle, type SimpleStore, type Store } from './base.store';
+
+export interface PersistOptions<T> {
+  /** Storage key the snapshot is saved under */
+  key: string;
+  /** Only persist these keys */
+  include?: (keyof T)[];
+  /** Persist everything except these keys */
+  exclude?: (keyof T)[];
+  /** Version of the persisted shape; bump it when the shape changes (default: 0) */
+  version?: number;
+  /** Convert a snapshot saved with an older version to the current shape */
+  migrate?: (persisted: any, version: number) => Partial<T>;
+  /** Wait this long after the last change before writing, in ms (default: 100) */
+  debounce?: number;
+  /** Defaults to `getStorage()` */
+  storage?: StorageService;
+}
+
+export interface Persistence {
+  /** Resolves once the persisted snapshot has been loaded into the store */
+  hydrated: Promise<void>;
+  /** Write pending changes now */
+  flush(): Promise<void>;
+  /** Remove the persisted snapshot */
+  clear(): Promise<void>;
+  /** Stop persisting changes */
+  stop(): void;
+}
+
+interface Snapshot {
+  version: number;
+  state: Record<string, any>;
+}
+
+function isSnapshot(value: unknown): value is Snapshot {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Snapshot).version === 'number' &&
+    typeof (value as Snapshot).state === 'object' && (value as Snapshot).state !== null;
+}
+
+/**
+ * Save a store's state to storage and restore it on startup
+ *
+ * Works with class stores and `createStore`. Only the selected keys are
+ * written, debounced, and only when one of them changes. Snapshots saved
+ * with a different `version` go through `migrate`, or are dropped without it.
+ */
+export function persist<T>(store: Store<T> | SimpleStore<T>, options: PersistOptions<T>): Persistence {
+  const { key, include, exclude, version = 0, migrate, debounce = 100 } = options;
+  const storage = options.storage ?? getStorage();
+  const handle = storeHandle(store);
+
+  const pick = (state: Partial<T>): Partial<T> => pickState(state, include, exclude);
+
+  const changedKeys = (a: Partial<T>, b: Partial<T>): (keyof T)[] => {
+    const names = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof T>;
+    return [...names].filter(name => !Object.is(a[name], b[name]));
+  };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let isHydrated = false;
+  let restoring = false;
+
+  const write = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    try {
+      await storage.set<Snapshot>(key, { version, state: pick(handle.getState()) });
+    } catch (error) {
+      console.error(`Failed to persist store "${key}":`, error);
+    }
+  };
+
+  const scheduleWrite = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(write, debounce);
+  };
+
+  // Keys changed before hydration finishes; they're newer than the snapshot
+  const changedEarly = new Set<keyof T>();
+
+  const unsubscribe = handle.subscribe((state, prevState) => {
+    const changed = changedKeys(pick(state), pick(prevState));
+    if (restoring || changed.length === 0) return;
+    if (isHydrated) {
+      scheduleWrite();
+    } else {
+      changed.forEach(name => changedEarly.add(name));
+    }
+  });
+
+  const hydrate = async (): Promise<void> => {
+    let restored: Partial<T> | null = null;
+    let migrated = false;
+
+    try {
+      const snapshot = await storage.get<unknown>(key);
+      if (isSnapshot(snapshot)) {
+        if (snapshot.version === version) {
+          restored = snapshot.state as Partial<T>;
+        } else if (migrate) {
+          restored = migrate(snapshot.state, snapshot.version);
+          migrated = true;
+        } else {
+          console.warn(`Dropping persisted store "${key}" saved with version ${snapshot.version}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to restore store "${key}":`, error);
+    }
+
+    if (stopped) return;
+
+    if (restored) {
+      const values = pick(restored);
+      changedEarly.forEach(name => delete values[name]);
+      restoring = true;
+      try {
+        handle.setState(values);
+      } finally {
+        restoring = false;
+      }
+    }
+    isHydrated = true;
+    if (migrated || changedEarly.size > 0) {
+      scheduleWrite();
+    }
+  };
+
+  const onPageHide = () => {
+    if (timer) write();
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', onPageHide);
+  }
+
+  return {
+    hydrated: hydrate(),
+
+    flush: async () => {
+      if (timer) await write();
+    },
+
+    clear: async () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await storage.remove(key);
+    },
+
+    stop: () => {
+      stopped = true;
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', onPageHide);
+      }
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { isElectron } from '../platform';
+import { IPC } from '../services/ipc';
+import { storeHandle, type SimpleStore, type Store } from './base.store';
+
+export interface SyncOptions<T> {
+  /** Name shared by the copies of the store in every window */
+  channel: string;
+  /** Keys kept in sync; other keys stay local to each window */
+  keys: (keyof T)[];
+}
+
+export interface StoreSync {
+  /** Stop sending and receiving changes */
+  stop(): void;
+}
+
+// When a key was last written and by which window; later writes win
+interface Stamp {
+  time: number;
+  source: string;
+}
+
+interface SyncMessage {
+  channel: string;
+  source: string;
+  type: 'hello' | 'update';
+  values?: Record<string, unknown>;
+  stamps?: Record<string, Stamp>;
+}
+
+interface SyncTransport {
+  post(message: SyncMessage): void;
+  listen(handler: (message: SyncMessage) => void): () => void;
+}
+
+// The main process relays messages to every other window, see the desktop template
+const IPC_PUBLISH = 'store-sync:publish';
+const IPC_MESSAGE = 'store-sync:message';
+
+function ipcTransport(): SyncTransport {
+  return {
+    post: message => {
+      IPC.invoke(IPC_PUBLISH, message);
+    },
+    listen: handler => {
+      const listener = (message: SyncMessage) => handler(message);
+      IPC.on(IPC_MESSAGE, listener);
+      return () => IPC.removeListener(IPC_MESSAGE, listener);
+    }
+  };
+}
+
+function broadcastTransport(channel: string): SyncTransport | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const broadcast = new BroadcastChannel(`marh-store:${channel}`);
+  return {
+    post: message => broadcast.postMessage(message),
+    listen: handler => {
+      const listener = (event: MessageEvent<SyncMessage>) => handler(event.data);
+      broadcast.addEventListener('message', listener);
+      return () => {
+        broadcast.removeEventListener('message', listener);
+        broadcast.close();
+      };
+    }
+  };
+}
+
+function isNewer(stamp: Stamp, than: Stamp | undefined): boolean {
+  return !than || stamp.time > than.time || (stamp.time === than.time && stamp.source > than.source);
+}
+
+/**
+ * Keep selected keys of a store in step across windows and tabs
+ *
+ * Uses `BroadcastChannel` in the browser and the `IPC` service in Electron.
+ * Each key is stamped with the time it was written, and the latest write
+ * wins when windows change the same key concurrently. A window that starts
+ * later asks the others for their current values.
+ */
+export function sync<T>(store: Store<T> | SimpleStore<T>, options: SyncOptions<T>): StoreSync {
+  const { channel, keys } = options;
+  const handle = storeHandle(store);
+  const transport = isElectron() ? ipcTransport() : broadcastTransport(channel);
+  if (!transport) {
+    return { stop: () => {} };
+  }
+
+  const source = Math.random().toString(36).slice(2);
+  const stamps = new Map<keyof T, Stamp>();
+  let applying = false;
+
+  const post = (type: SyncMessage['type'], names: (keyof T)[] = []): void => {
+    const values: Record<string, unknown> = {};
+    const sent: Record<string, Stamp> = {};
+    const state = handle.getState();
+    names.forEach(name => {
+      values[name as string] = state[name];
+      sent[name as string] = stamps.get(name)!;
+    });
+    transport.post({ channel, source, type, values, stamps: sent });
+  };
+
+  const unsubscribe = handle.subscribe((state, prevState) => {
+    if (applying) return;
+
+    const changed = keys.filter(name => !Object.is(state[name], prevState[name]));
+    if (changed.length === 0) return;
+
+    changed.forEach(name => {
+      // Stay ahead of remote stamps even if this window's clock is behind
+      const time = Math.max(Date.now(), (stamps.get(name)?.time ?? 0) + 1);
+      stamps.set(name, { time, source });
+    });
+    post('update', changed);
+  });
+
+  const stopListening = transport.listen(message => {
+    if (message.channel !== channel || message.source === source) return;
+
+    if (message.type === 'hello') {
+      const known = keys.filter(name => stamps.has(name));
+      if (known.length > 0) post('update', known);
+      return;
+    }
+
+    const updates: Partial<T> = {};
+    Object.entries(message.stamps ?? {}).forEach(([name, stamp]) => {
+      const key = name as keyof T;
+      if (!keys.includes(key) || !isNewer(stamp, stamps.get(key))) return;
+      stamps.set(key, stamp);
+      updates[key] = message.values?.[name] as T[keyof T];
+    });
+    if (Object.keys(updates).length === 0) return;
+
+    applying = true;
+    try {
+      handle.setState(updates, { action: `sync:${channel}` });
+    } finally {
+      applying = false;
+    }
+  });
+
+  post('hello');
+
+  return {
+    stop: () => {
+      unsubscribe();
+      stopListening();
+    }
+  };
+}
@@ -19,9 +19,11 @@ export interface ComponentProps {
 // Route definition types
 export interface RouteConfig {
   path: string;
+  name?: string;
   component: ComponentTypes;
   title?: string;
   meta?: Record<string, any>;
+  metaTags?: Record<string, string>;
 }
 
 // Application configuration
@@ -37,11 +39,58 @@ export type EventHandler<T = Event> = (event: T) => void;
 export type AsyncEventHandler<T = Event> = (event: T) => Promise<void>;
 
 // State management types
-export interface Store<T = any> {
-  state: T;
-  setState: (newState: Partial<T>) => void;
-  getState: () => T;
-  subscribe: (listener: (state: T) => void) => () => void;
+export type StoreListener<T> = (state: Readonly<T>, prevState: Readonly<T>) => void;
+export type EqualityFn<S> = (a: S, b: S) => boolean;
+
+/** Side effect of a selected value; may return a cleanup run before the next run */
+export type StoreEffect<S> = (selected: S, prevSelected: S) => void | (() => void);
+
+export interface ActionStatus {
+  pending: boolean;
+  error: Error | null;
+}
+
+export interface ActionOptions {
+  /** Abort the running call when the action is called again (default: true) */
+  takeLatest?: boolean;
+}
+
+export interface SetStateOptions {
+  /** Update state and notify subscribers without redrawing */
+  silent?: boolean;
+  /** Label shown in devtools; defaults to the name of the calling method */
+  action?: string;
+}
+
+/**
+ * Read and observe side of a store, implemented by class stores
+ */
+export interface ObservableStore<T = any> {
+  getState: () => Readonly<T>;
+  subscribe: (listener: StoreListener<T>) => () => void;
+  select: <S>(
+    selector: (state: Readonly<T>) => S,
+    listener: (selected: S, prevSelected: S) => void,
+    equalityFn?: EqualityFn<S>
+  ) => () => void;
+  batch: <R>(fn: () => R) => R;
+  effect: <S>(
+    selector: (state: Readonly<T>) => S,
+    run: StoreEffect<S>,
+    equalityFn?: EqualityFn<S>
+  ) => () => void;
+}
+
+/**
+ * A store as seen from outside. `state` and `setState` remain for stores
+ * written against the earlier version of this interface; class stores keep
+ * them protected.
+ */
+export interface Store<T = any> extends ObservableStore<T> {
+  /** @deprecated Read the state with `getState()` */
+  state?: T;
+  /** @deprecated Update state through the store's own methods */
+  setState?: (newState: Partial<T>) => void;
 }
 
 // Form types
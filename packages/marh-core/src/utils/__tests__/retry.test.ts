@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runWithRetry } from '../retry';
+
+// Never settles unless aborted, like a fetch that hangs
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+}
+
+describe('runWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the result of the first successful attempt', async () => {
+    const run = vi.fn(async () => 'ok');
+
+    await expect(runWithRetry(run)).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects right away without retries', async () => {
+    const run = vi.fn(async () => {
+      throw new Error('failed');
+    });
+
+    await expect(runWithRetry(run)).rejects.toThrow('failed');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects synchronous throws like failed attempts', async () => {
+    const run = vi.fn((): Promise<string> => {
+      throw new Error('sync');
+    });
+
+    await expect(runWithRetry(run)).rejects.toThrow('sync');
+  });
+
+  describe('retry', () => {
+    it('retries up to the given count and rejects with the last error', async () => {
+      let attempts = 0;
+      const run = vi.fn(async () => {
+        throw new Error(`attempt ${++attempts}`);
+      });
+
+      const result = runWithRetry(run, { retry: 2 });
+      const assertion = expect(result).rejects.toThrow('attempt 3');
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops retrying once an attempt succeeds', async () => {
+      const run = vi.fn()
+        .mockRejectedValueOnce(new Error('flaky'))
+        .mockResolvedValueOnce('ok');
+
+      const result = runWithRetry(run, { retry: 5 });
+      await vi.runAllTimersAsync();
+
+      await expect(result).resolves.toBe('ok');
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('backs off exponentially up to maxDelay', async () => {
+      const run = vi.fn(async () => {
+        throw new Error('failed');
+      });
+
+      const result = runWithRetry(run, { retry: { retries: 4, delay: 100, maxDelay: 300 } });
+      result.catch(() => {});
+      const callsAfter = async (ms: number) => {
+        await vi.advanceTimersByTimeAsync(ms);
+        return run.mock.calls.length;
+      };
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(await callsAfter(99)).toBe(1);
+      expect(await callsAfter(1)).toBe(2);
+      expect(await callsAfter(200)).toBe(3);
+      expect(await callsAfter(299)).toBe(3);
+      expect(await callsAfter(1)).toBe(4);
+      expect(await callsAfter(300)).toBe(5);
+    });
+  });
+
+  describe('timeout', () => {
+    it('aborts an attempt that takes too long with a TimeoutError', async () => {
+      let signal: AbortSignal | undefined;
+      const result = runWithRetry(attemptSignal => {
+        signal = attemptSignal;
+        return hang(attemptSignal);
+      }, { timeout: 500 });
+      const assertion = expect(result).rejects.toMatchObject({ name: 'TimeoutError' });
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      await assertion;
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('settles even when the attempt ignores its signal', async () => {
+      const result = runWithRetry(() => new Promise(() => {}), { timeout: 100 });
+      const assertion = expect(result).rejects.toThrow('Timed out after 100ms');
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+    });
+
+    it('retries attempts that timed out', async () => {
+      const run = vi.fn()
+        .mockImplementationOnce(hang)
+        .mockResolvedValueOnce('ok');
+
+      const result = runWithRetry(run, { timeout: 100, retry: { retries: 1, delay: 10 } });
+      await vi.advanceTimersByTimeAsync(110);
+
+      await expect(result).resolves.toBe('ok');
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('abort', () => {
+    it('rejects with the reason when the signal is aborted mid-attempt', async () => {
+      const controller = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+      const result = runWithRetry(signal => {
+        attemptSignal = signal;
+        return hang(signal);
+      }, { signal: controller.signal });
+
+      controller.abort(new Error('left the page'));
+
+      await expect(result).rejects.toThrow('left the page');
+      expect(attemptSignal!.aborted).toBe(true);
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const run = vi.fn(async () => 'ok');
+
+      await expect(runWithRetry(run, { signal: controller.signal })).rejects.toBeDefined();
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('stops waiting for the next retry when aborted', async () => {
+      const controller = new AbortController();
+      const run = vi.fn(async () => {
+        throw new Error('failed');
+      });
+
+      const result = runWithRetry(run, { signal: controller.signal, retry: { retries: 3, delay: 1000 } });
+      const assertion = expect(result).rejects.toThrow('cancelled');
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort(new Error('cancelled'));
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Exponential backoff: waits `delay`, then twice as long before each
+ * further retry, up to `maxDelay`
+ */
+export interface RetryPolicy {
+  /** Retries after the first failed attempt */
+  retries: number;
+  /** Wait before the first retry, in ms (default: 1000) */
+  delay?: number;
+  /** Longest wait between retries, in ms (default: 30000) */
+  maxDelay?: number;
+}
+
+export interface RunOptions {
+  /** Stops the current attempt and any further retries */
+  signal?: AbortSignal;
+  /** Abort an attempt that takes longer than this, in ms */
+  timeout?: number;
+  /** Number of retries, or a full policy */
+  retry?: number | RetryPolicy;
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('The operation was aborted');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One attempt with its own signal, aborted by the caller's signal or the timeout
+function attempt<T>(run: (signal: AbortSignal) => Promise<T>, options: RunOptions): Promise<T> {
+  const { signal, timeout } = options;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  // Settles as soon as the attempt is aborted, even if `run` ignores its signal
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(abortError(controller.signal)), { once: true });
+  });
+
+  if (signal) {
+    onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  if (timeout !== undefined) {
+    timer = setTimeout(() => {
+      const error = new Error(`Timed out after ${timeout}ms`);
+      error.name = 'TimeoutError';
+      controller.abort(error);
+    }, timeout);
+  }
+
+  let running: Promise<T>;
+  try {
+    running = Promise.resolve(run(controller.signal));
+  } catch (error) {
+    running = Promise.reject(error);
+  }
+
+  return Promise.race([running, aborted]).finally(() => {
+    clearTimeout(timer);
+    if (onAbort) signal!.removeEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Run `run` until it succeeds, retrying failures and timeouts with
+ * exponential backoff. Rejects with the last error, or right away once
+ * `signal` is aborted.
+ */
+export async function runWithRetry<T>(run: (signal: AbortSignal) => Promise<T>, options: RunOptions = {}): Promise<T> {
+  const { signal, retry = 0 } = options;
+  const { retries, delay = 1000, maxDelay = 30_000 } = typeof retry === 'number' ? { retries: retry } : retry;
+
+  for (let count = 0; ; count++) {
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    try {
+      return await attempt(run, options);
+    } catch (error) {
+      if (signal?.aborted || count >= retries) throw error;
+      await sleep(Math.min(delay * 2 ** count, maxDelay), signal);
+    }
+  }
+}